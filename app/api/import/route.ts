@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { apiErrorBody, toApiError } from "@/lib/errors";
+import { importFile } from "@/lib/extractors";
+
+export const runtime = "nodejs";
+
+// 브라우저 → 서버 업로드 상한 (EPUB 삽화가 많아도 이 정도면 충분)
+const MAX_FILE_BYTES = 30 * 1024 * 1024;
+
+/** -------------------------
+ *  Route handlers
+ *  ------------------------- */
+export async function POST(req: Request) {
+  try {
+    const form = await req.formData();
+    const file = form.get("file");
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json(apiErrorBody("FILE_MISSING", "파일이 비어 있어요."), { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json(
+        apiErrorBody(
+          "FILE_TOO_LARGE",
+          `파일이 너무 커요. (${Math.round(file.size / 1024 / 1024)}MB / 최대 ${MAX_FILE_BYTES / 1024 / 1024}MB)`
+        ),
+        { status: 413 }
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const r = importFile(file.name || "", bytes, file.type || "");
+    return NextResponse.json(r.body, { status: r.status });
+  } catch (e: any) {
+    const { status, body } = toApiError(e);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { apiErrorBody } from "@/lib/errors";
+import { httpFetch } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+// i.pximg.net 은 Referer 가 pixiv 가 아니면 403 → 서버에서 대신 받아서 넘겨줌
+const ALLOWED_HOST = "i.pximg.net";
+
+/** -------------------------
+ *  Route handlers
+ *  ------------------------- */
+export async function GET(req: Request) {
+  const raw = new URL(req.url).searchParams.get("url") || "";
+
+  let target: URL;
+  try {
+    target = new URL(raw);
+  } catch {
+    return NextResponse.json(apiErrorBody("URL_INVALID", "올바른 이미지 URL이 아니에요."), { status: 400 });
+  }
+
+  if (target.protocol !== "https:" || target.hostname !== ALLOWED_HOST) {
+    return NextResponse.json(
+      apiErrorBody("PIXIV_IMAGE_NOT_ALLOWED", "Pixiv 이미지 주소만 불러올 수 있어요."),
+      { status: 400 }
+    );
+  }
+
+  try {
+    const res = await httpFetch(target.toString(), {
+      headers: {
+        referer: "https://www.pixiv.net/",
+        "user-agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      },
+    });
+
+    if (!res.ok || !res.body) {
+      // 안 읽는 본문은 바로 버려야 호스트 자리(i.pximg.net)가 풀림
+      res.body?.cancel().catch(() => {});
+      return NextResponse.json(
+        apiErrorBody("PIXIV_IMAGE_FETCH_FAILED", `Pixiv 이미지를 불러오지 못했어요: ${res.status} ${res.statusText}`),
+        { status: res.status || 502 }
+      );
+    }
+
+    return new Response(res.body, {
+      status: 200,
+      headers: {
+        "content-type": res.headers.get("content-type") || "image/jpeg",
+        // 이미지 URL 은 내용이 안 바뀌므로 길게 캐시
+        "cache-control": "public, max-age=604800, immutable",
+      },
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      apiErrorBody("PIXIV_IMAGE_FETCH_FAILED", `Pixiv 이미지를 불러오지 못했어요: ${String(e?.message || e)}`),
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { toApiError } from "@/lib/errors";
+import { checkPixivCookie } from "@/lib/extractors";
+
+export const runtime = "nodejs";
+
+/** -------------------------
+ *  Route handlers
+ *  ------------------------- */
+export async function POST(req: Request) {
+  try {
+    const { cookie } = (await req.json()) as { cookie?: string };
+    const r = await checkPixivCookie(cookie || "");
+    return NextResponse.json(r.body, { status: r.status });
+  } catch (e: any) {
+    const { status, body } = toApiError(e);
+    return NextResponse.json(body, { status });
+  }
+}
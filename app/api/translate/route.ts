@@ -1,61 +1,164 @@
 import { NextRequest, NextResponse } from "next/server";
+import { toApiError } from "@/lib/errors";
+import { maskGlossary, normalizeGlossary, unmaskGlossary, type GlossaryEntry } from "@/lib/glossary";
+import { withHttpStats } from "@/lib/http";
+import {
+  defaultProviderOrder,
+  listTranslateProviders,
+  normalizeLanguages,
+  normalizeProviderOrder,
+  translateWithFallback,
+  type TranslateHooks,
+  type TranslateLanguages,
+  type TranslateProviderId,
+  type TranslateResponse,
+  type TranslateStreamEvent,
+} from "@/lib/translate";
+
+export const runtime = "nodejs";
+
+/** -------------------------
+ *  용어집 가리기 → 폴백 번역 → 되돌리기 (+ 재시도 횟수)
+ *  - signal: 클라이언트가 끊으면 엔진 호출(외부 API)까지 취소
+ *  ------------------------- */
+async function translateMasked(
+  order: TranslateProviderId[],
+  languages: TranslateLanguages,
+  glossary: GlossaryEntry[],
+  mask: ReturnType<typeof maskGlossary>,
+  hooks?: TranslateHooks,
+  signal?: AbortSignal
+) {
+  return withHttpStats(async () => {
+    try {
+      const r = await translateWithFallback(mask.text, order, languages, hooks, signal);
+      if (glossary.length === 0) return { ok: r };
+
+      const { text: translated, report } = unmaskGlossary(r.translated, mask);
+      return { ok: { ...r, translated, glossary: report } };
+    } catch (e: any) {
+      // 재시도 횟수는 실패 응답에도 실어 보냄
+      return { error: e };
+    }
+  });
+}
+
+/** -------------------------
+ *  스트리밍 응답 (NDJSON, 한 줄에 TranslateStreamEvent 하나)
+ *  - LLM 은 토큰 단위 delta, 나머지 엔진은 done 한 번
+ *  - 스트림이 시작된 뒤의 실패는 상태 코드 대신 { type: "error" } 줄로 보냄
+ *  ------------------------- */
+function streamTranslation(
+  text: string,
+  order: TranslateProviderId[],
+  languages: TranslateLanguages,
+  glossary: GlossaryEntry[],
+  signal: AbortSignal
+) {
+  const encoder = new TextEncoder();
+  let closed = false;
+  // 요청이 끊기거나(signal) 스트림을 취소하면(cancel) 진행 중인 엔진 호출도 중단
+  const abort = new AbortController();
+  const onAbort = () => abort.abort();
+  if (signal.aborted) abort.abort();
+  else signal.addEventListener("abort", onAbort, { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (ev: TranslateStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(ev) + "\n"));
+        } catch {
+          // 클라이언트가 취소해서 이미 닫힘
+          closed = true;
+        }
+      };
+
+      const mask = maskGlossary(text, glossary);
+      send({ type: "start", glossaryTargets: mask.tokens.map((t) => t.target) });
+
+      const { result, stats } = await translateMasked(
+        order,
+        languages,
+        glossary,
+        mask,
+        {
+          onAttempt: (provider) => send({ type: "attempt", provider }),
+          onDelta: (delta) => send({ type: "delta", text: delta }),
+        },
+        abort.signal
+      );
+      signal.removeEventListener("abort", onAbort);
+
+      if ("error" in result) {
+        const { status, body } = toApiError(result.error);
+        send({ type: "error", status, ...body, retries: stats.retries });
+      } else {
+        send({ type: "done", ...result.ok, retries: stats.retries });
+      }
+
+      if (!closed) controller.close();
+    },
+    cancel() {
+      closed = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
+
+/** -------------------------
+ *  Route handlers
+ *  ------------------------- */
+export async function GET() {
+  // ✅ 설정 화면: 엔진 목록 + 서버에 키가 있는지 + 서버 기본 순서
+  return NextResponse.json({ providers: listTranslateProviders(), defaultOrder: defaultProviderOrder() });
+}
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
     const text = String(body?.text ?? "").trim();
+    // 앞에서부터 시도, 실패하면 다음 엔진으로
+    const order = normalizeProviderOrder(body?.providers);
+    // 안 보내면 일본어 → 한국어 (예전 클라이언트 호환)
+    const languages = normalizeLanguages({ source: body?.source, target: body?.target });
+    // 시리즈 → 폴더 → 전체 순으로 온 용어집 (앞쪽 우선)
+    const glossary = normalizeGlossary(body?.glossary);
 
     if (!text) {
-      return NextResponse.json({ translated: "" });
+      const empty: TranslateResponse = { translated: "", provider: order[0], languages, retries: 0 };
+      return NextResponse.json(empty);
     }
 
-    const apiKey = process.env.GOOGLE_TRANSLATE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "GOOGLE_TRANSLATE_API_KEY가 설정되지 않았습니다." },
-        { status: 500 }
-      );
-    }
+    // ✅ 뷰어에 중간 결과를 바로 보여줄 때
+    if (body?.stream === true) return streamTranslation(text, order, languages, glossary, req.signal);
 
-    const res = await fetch(
-      `https://translation.googleapis.com/language/translate/v2?key=${apiKey}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          q: text,
-          source: "ja",
-          target: "ko",
-          format: "text",
-        }),
-        cache: "no-store",
-      }
+    const { result, stats } = await translateMasked(
+      order,
+      languages,
+      glossary,
+      maskGlossary(text, glossary),
+      undefined,
+      req.signal
     );
 
-    const data = await res.json().catch(() => ({}));
-
-    if (!res.ok) {
-      return NextResponse.json(
-        {
-          error:
-            (data as any)?.error?.message ||
-            (data as any)?.message ||
-            `Google 번역 오류 (${res.status})`,
-        },
-        { status: res.status }
-      );
+    if ("error" in result) {
+      const { status, body: errBody } = toApiError(result.error);
+      return NextResponse.json({ ...errBody, retries: stats.retries }, { status });
     }
 
-    const translated =
-      (data as any)?.data?.translations?.[0]?.translatedText ?? "";
-
-    return NextResponse.json({ translated: String(translated) });
+    const res: TranslateResponse = { ...result.ok, retries: stats.retries };
+    return NextResponse.json(res);
   } catch (e: any) {
-    return NextResponse.json(
-      { error: e?.message || "서버 번역 오류" },
-      { status: 500 }
-    );
+    const { status, body } = toApiError(e);
+    return NextResponse.json(body, { status });
   }
 }
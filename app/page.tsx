@@ -1,6 +1,52 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { ExtractMeta, SupportedSite } from "@/lib/extractors/types";
+import { ApiError, apiErrorFromResponse, type ApiErrorCode } from "@/lib/errors";
+import { maskPlaceholders, unmaskPlaceholders } from "@/lib/placeholders";
+import {
+  glossaryVersion,
+  hashText,
+  memoryKey,
+  pruneMemory,
+  splitParagraphs,
+  type MemoryContext,
+  type TranslationMemory,
+} from "@/lib/translationMemory";
+import {
+  glossaryEntryError,
+  mergeGlossaryReports,
+  type GlossaryEntry,
+  type GlossaryReport,
+  type GlossaryScope,
+  type ScopedGlossaryEntry,
+} from "@/lib/glossary";
+import {
+  DEFAULT_LANGUAGES,
+  SOURCE_LANGUAGES,
+  TARGET_LANGUAGES,
+  TRANSLATE_PROVIDER_IDS,
+  TRANSLATE_PROVIDER_LABELS,
+  isTranslateProviderId,
+  languageLabel,
+  normalizeLanguages,
+  type TranslateLanguages,
+  type TranslateProviderId,
+  type TranslateProviderInfo,
+  type TranslateResponse,
+  type TranslateStreamEvent,
+} from "@/lib/translate/types";
+import {
+  assemblePixivTranslation,
+  buildPixivTranslationPlan,
+  hasPixivMarkup,
+  isPixivTagLine,
+  isSafeLinkUrl,
+  parsePixivInline,
+  parsePixivMarkup,
+  type PixivInline,
+  type PixivTranslationPlan,
+} from "@/lib/pixivMarkup";
 type CloseButtonProps = {
   onClose: () => void;
 };
@@ -66,7 +112,91 @@ function chunkText(input: string, maxChars = 4500): string[] {
   return chunks;
 }
 
-type Progress = { current: number; total: number } | null;
+// retries: 서버가 429/5xx 로 다시 시도한 누적 횟수
+// fallbacks: 앞 순서 엔진이 실패해서 다음 엔진으로 넘어간 조각 수
+type Progress = { current: number; total: number; retries?: number; fallbacks?: number } | null;
+
+// 엔진이 표식(⟦P1⟧/⟦G1⟧)을 지운 조각 — label: "제목" / "부제목" / "본문 3"
+type MaskWarning = { label: string; missing: string[] };
+
+type TranslationRunResult = {
+  ok: boolean;
+  item?: HistoryItem;
+  error?: string;
+  aborted?: boolean;
+};
+
+/* =========================
+   이어하기: 끝나지 않은 번역 작업 (새로고침/취소/오류 뒤 남은 조각부터)
+========================= */
+// runTranslation 옵션 중 저장할 수 있는 것 (onProgress 같은 함수는 빼고)
+type TranslationJobOptions = {
+  mode: "manual" | "url";
+  sourceUrl?: string;
+  title?: string;
+  seriesTitle?: string;
+  episodeNo?: number | null;
+  folderId?: string | null;
+  meta?: ExtractMeta;
+  images?: Record<string, string>;
+};
+
+type TranslationJob = {
+  id: string;
+  // 보관 자리: 같은 원문(URL/붙여넣은 본문)이나 같은 대기열 항목이면 같은 키
+  key: string;
+  createdAt: number;
+  updatedAt: number;
+  // running: 새로고침 등으로 중간에 끊김
+  status: "running" | "failed" | "aborted";
+  error?: string;
+
+  rawText: string;
+  opts: TranslationJobOptions;
+  languages: TranslateLanguages;
+
+  // 앞처리 결과 (이어할 때 다시 추출/번역하지 않음)
+  header: {
+    episodeNo: number | null;
+    episodeHeader: string;
+    subtitle: string;
+    translatedSubtitle: string;
+    extractedEpisode: boolean;
+    extractedSubtitle: boolean;
+    showHeader: boolean;
+  };
+  translatedTitle: string;
+  pixivPlan: PixivTranslationPlan | null;
+  chunks: string[];
+
+  // 조각별 결과 (아직이면 null)
+  translated: Array<string | null>;
+  providers: Array<TranslateProviderId | null>;
+  glossaryReports: GlossaryReport[];
+  maskWarnings: MaskWarning[];
+};
+
+/* =========================
+   시리즈 대기열 (회차를 순서대로 불러와 번역)
+========================= */
+// extracting: URL → 본문 / translating: 조각 번역 중 (progress 로 n/m 표시)
+type QueueItemStatus = "waiting" | "extracting" | "translating" | "done" | "failed";
+
+type QueueItem = {
+  id: string;
+  url: string;
+  title: string;
+  episodeNo: number | null;
+  seriesTitle: string;
+  folderId: string | null;
+  status: QueueItemStatus;
+  error?: string;
+  progress?: { current: number; total: number };
+
+  // 파일(EPUB 챕터)처럼 본문을 이미 들고 있으면 URL 추출을 건너뜀
+  text?: string;
+  meta?: ExtractMeta;
+};
 
 /* =========================
    History / Folder types
@@ -80,7 +210,7 @@ type HistoryItem = {
 
   // ✅ 회차가 원문에 없으면 null (임의로 1화 생성 금지)
   episodeNo: number | null;
-  // ✅ 원문 회차 표식(헤더 표시용): "#01" 같은 원문 그대로 / 第1話는 "제 1화"로 저장
+  // ✅ 원문 회차 표식(헤더 표시용): "#01" 같은 원문 그대로 / 第1話는 번역 언어 표기로 저장 (ko: "제 1화")
   episodeHeader: string;
 
   // 원문 부제목/제목(저장용)
@@ -97,6 +227,28 @@ type HistoryItem = {
 
   // 헤더 표시 여부
   showHeader?: boolean;
+
+  // 본문 삽화 태그 키 → 이미지 URL (Pixiv [uploadedimage:…]/[pixivimage:…])
+  images?: Record<string, string>;
+
+  // 추출기가 준 작품 정보 (작가/태그/캡션/시리즈 위치/R-18 등)
+  sourceMeta?: ExtractMeta;
+
+  // 추출할 때 찾은 이웃 회차 URL ("다음 화 번역"용)
+  prevUrl?: string;
+  nextUrl?: string;
+
+  // 본문 조각별로 실제 번역한 엔진 (조각 순서대로)
+  providers?: TranslateProviderId[];
+
+  // 번역할 때 쓴 원문/결과 언어
+  languages?: TranslateLanguages;
+
+  // 용어집 적용 결과
+  glossary?: GlossaryReport;
+
+  // 표식이 사라진 조각 (원문 그대로 복원 못 한 회차 줄/URL/태그/용어)
+  maskWarnings?: MaskWarning[];
 };
 
 type HistoryFolder = {
@@ -104,6 +256,8 @@ type HistoryFolder = {
   createdAt: number;
   name: string;
   parentId: string | null;
+  // 이 폴더(및 하위 폴더)에서 번역할 때 기본 언어
+  languages?: TranslateLanguages;
 };
 
 /* =========================
@@ -144,7 +298,35 @@ type AppSettings = {
   // ✅ 프리셋
   pixivPresetEnabled: boolean; // Pixiv 복사용 텍스트 정리+헤더 적용
   pixivStripMeta: boolean; // 날짜/시간/작가명 제거
+
+  // ✅ 시리즈 회차는 시리즈 이름 폴더에 자동 저장
+  autoFileBySeries: boolean;
+
+  // ✅ 번역 엔진 시도 순서 (앞 엔진이 실패하면 다음으로) · 비어 있으면 서버 기본 순서
+  translateProviders: TranslateProviderId[];
+
+  // ✅ 시리즈/폴더 기본값이 없을 때 쓰는 언어
+  defaultLanguages: TranslateLanguages;
+
+  // ✅ 엔진별 동시에 보낼 조각 수 (첫 번째 엔진 기준으로 적용)
+  translateConcurrency: Record<TranslateProviderId, number>;
+
+  // ✅ 바뀌지 않은 문단은 전에 번역한 결과를 다시 씀
+  useTranslationMemory: boolean;
+};
+
+// 로컬 LLM 은 한 번에 하나씩 처리하는 경우가 많고, 무료 Google 은 많이 보내면 막힘
+const DEFAULT_CONCURRENCY: Record<TranslateProviderId, number> = {
+  "google-cloud": 4,
+  "google-free": 2,
+  llm: 1,
 };
+const MAX_CONCURRENCY = 8;
+
+function clampConcurrency(v: any, fallback: number) {
+  const n = Math.floor(Number(v));
+  return Number.isFinite(n) ? Math.max(1, Math.min(MAX_CONCURRENCY, n)) : fallback;
+}
 
 const DEFAULT_SETTINGS: AppSettings = {
   // 서식(기본 A안)
@@ -180,6 +362,25 @@ const DEFAULT_SETTINGS: AppSettings = {
   // ✅ 프리셋 기본값
   pixivPresetEnabled: true,
   pixivStripMeta: true,
+
+  autoFileBySeries: false,
+
+  translateProviders: [],
+
+  defaultLanguages: DEFAULT_LANGUAGES,
+
+  translateConcurrency: DEFAULT_CONCURRENCY,
+
+  useTranslationMemory: true,
+};
+
+// 설정 화면의 Pixiv 쿠키 로그인 확인 결과
+type PixivCookieCheck = {
+  state: "idle" | "checking" | "ok" | "expired" | "error";
+  userId?: string;
+  userName?: string;
+  xRestrict?: number;
+  error?: string;
 };
 
 const SETTINGS_KEY = "parody_translator_settings_v1"; // 기존 키 유지
@@ -201,7 +402,19 @@ function loadSettings(): AppSettings {
     const raw = localStorage.getItem(SETTINGS_KEY);
     if (!raw) return DEFAULT_SETTINGS;
     const parsed = JSON.parse(raw) as Partial<AppSettings>;
-    return { ...DEFAULT_SETTINGS, ...(parsed || {}) };
+    const providers = Array.isArray(parsed?.translateProviders)
+      ? Array.from(new Set(parsed.translateProviders.filter(isTranslateProviderId)))
+      : [];
+    return {
+      ...DEFAULT_SETTINGS,
+      ...(parsed || {}),
+      translateProviders: providers,
+      defaultLanguages: normalizeLanguages(parsed?.defaultLanguages),
+      translateConcurrency: TRANSLATE_PROVIDER_IDS.reduce(
+        (acc, id) => ({ ...acc, [id]: clampConcurrency(parsed?.translateConcurrency?.[id], DEFAULT_CONCURRENCY[id]) }),
+        {} as Record<TranslateProviderId, number>
+      ),
+    };
   } catch {
     return DEFAULT_SETTINGS;
   }
@@ -217,6 +430,24 @@ function saveSettings(s: AppSettings) {
 const STORAGE_KEY = "parody_translator_history_v3";
 const FOLDERS_KEY = "parody_translator_history_folders_v2";
 
+// 저장된 삽화 맵에서 문자열 URL만 살림
+function sanitizeImageMap(v: any): Record<string, string> | undefined {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return undefined;
+  const out: Record<string, string> = {};
+  for (const [k, url] of Object.entries(v)) {
+    if (typeof url === "string" && url) out[k] = url;
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+function sanitizeSourceMeta(v: any): ExtractMeta | undefined {
+  if (!v || typeof v !== "object" || typeof v.extractor !== "string") return undefined;
+  return {
+    ...v,
+    tags: Array.isArray(v.tags) ? v.tags.filter((t: any) => typeof t === "string") : undefined,
+  };
+}
+
 function loadHistory(): HistoryItem[] {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
@@ -241,13 +472,13 @@ function loadHistory(): HistoryItem[] {
 
   // ✅ NEW: episodeHeader (구버전 호환 포함)
   // - 저장된 값이 있으면 그걸 사용
-  // - 없으면 episodeNo가 있으면 "제 N화"
+  // - 없으면 episodeNo가 있으면 번역 언어 표기 (언어 기록이 없는 구버전은 기본값 = 한국어)
   // - 없으면 ""
   episodeHeader:
     typeof (x as any).episodeHeader === "string"
       ? (x as any).episodeHeader
       : ep != null
-      ? `제 ${ep}화`
+      ? episodeHeaderFor(ep, normalizeLanguages((x as any).languages).target)
       : "",
 
   subtitle: typeof (x as any).subtitle === "string" ? (x as any).subtitle : "",
@@ -258,6 +489,20 @@ function loadHistory(): HistoryItem[] {
   url: typeof (x as any).url === "string" ? (x as any).url : undefined,
   folderId: typeof (x as any).folderId === "string" ? (x as any).folderId : (x as any).folderId ?? null,
   showHeader: typeof (x as any).showHeader === "boolean" ? (x as any).showHeader : false,
+  images: sanitizeImageMap((x as any).images),
+  sourceMeta: sanitizeSourceMeta((x as any).sourceMeta),
+  prevUrl: typeof (x as any).prevUrl === "string" ? (x as any).prevUrl : undefined,
+  nextUrl: typeof (x as any).nextUrl === "string" ? (x as any).nextUrl : undefined,
+  providers: Array.isArray((x as any).providers)
+    ? (x as any).providers.filter(isTranslateProviderId)
+    : undefined,
+  languages: (x as any).languages ? normalizeLanguages((x as any).languages) : undefined,
+  glossary: sanitizeGlossaryReport((x as any).glossary),
+  maskWarnings: Array.isArray((x as any).maskWarnings)
+    ? (x as any).maskWarnings
+        .filter((w: any) => w && typeof w.label === "string" && Array.isArray(w.missing))
+        .map((w: any) => ({ label: w.label, missing: w.missing.map(String) }))
+    : undefined,
 };
         return item;
       });
@@ -276,7 +521,9 @@ function loadFolders(): HistoryFolder[] {
     if (!raw) return [];
     const parsed = JSON.parse(raw);
     if (!Array.isArray(parsed)) return [];
-    return parsed.filter((x) => x && typeof x.id === "string" && typeof x.name === "string");
+    return parsed
+      .filter((x) => x && typeof x.id === "string" && typeof x.name === "string")
+      .map((x) => ({ ...x, languages: x.languages ? normalizeLanguages(x.languages) : undefined }));
   } catch {
     return [];
   }
@@ -286,6 +533,192 @@ function saveFolders(folders: HistoryFolder[]) {
   localStorage.setItem(FOLDERS_KEY, JSON.stringify(folders));
 }
 
+/* =========================
+   용어집 (전체 / 폴더 / 시리즈)
+========================= */
+const GLOSSARY_KEY = "parody_translator_glossary_v1";
+
+// 처음 쓰는 사람용: 예전에 프롬프트에만 있던 고정 치환 두 개
+const DEFAULT_GLOSSARY: ScopedGlossaryEntry[] = [
+  { id: "default-side-fate", source: "Side Fate", target: "Side 페이트", scope: "global", scopeKey: "" },
+  { id: "default-kaodashi-ng", source: "顔出NG", target: "얼굴 공개 거부", scope: "global", scopeKey: "" },
+];
+
+function loadGlossary(): ScopedGlossaryEntry[] {
+  try {
+    const raw = localStorage.getItem(GLOSSARY_KEY);
+    if (raw === null) return DEFAULT_GLOSSARY;
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((x) => x && typeof x.id === "string" && typeof x.source === "string" && typeof x.target === "string")
+      .map((x) => ({
+        id: x.id,
+        source: x.source,
+        target: x.target,
+        caseSensitive: !!x.caseSensitive,
+        regex: !!x.regex,
+        scope: x.scope === "folder" || x.scope === "series" ? x.scope : "global",
+        scopeKey: typeof x.scopeKey === "string" ? x.scopeKey : "",
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function saveGlossary(entries: ScopedGlossaryEntry[]) {
+  localStorage.setItem(GLOSSARY_KEY, JSON.stringify(entries));
+}
+
+function sanitizeGlossaryReport(v: any): GlossaryReport | undefined {
+  if (!v || typeof v !== "object" || !Array.isArray(v.hits)) return undefined;
+  return {
+    hits: v.hits
+      .filter((h: any) => h && typeof h.id === "string" && typeof h.count === "number")
+      .map((h: any) => ({ id: h.id, source: String(h.source ?? ""), target: String(h.target ?? ""), count: h.count })),
+    missing: Array.isArray(v.missing) ? v.missing.filter((id: any) => typeof id === "string") : [],
+  };
+}
+
+/* =========================
+   번역 메모리 (문단 → 번역 결과)
+========================= */
+const MEMORY_KEY = "parody_translator_memory_v1";
+
+function loadTranslationMemory(): TranslationMemory {
+  try {
+    const raw = localStorage.getItem(MEMORY_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveTranslationMemory(memory: TranslationMemory) {
+  localStorage.setItem(MEMORY_KEY, JSON.stringify(memory));
+}
+
+/* =========================
+   이어하기 작업 (원문/대기열 항목별로 보관)
+========================= */
+// 작업마다 따로 보관 (조각이 끝날 때 그 작업만 다시 씀) + 목록(키 → 마지막 저장 시각)
+const JOB_INDEX_KEY = "parody_translator_jobs_v2";
+const JOB_KEY_PREFIX = "parody_translator_job_v2:";
+// 예전 버전: 한 번에 하나만 보관 → 읽을 때 옮겨 옴
+const LEGACY_JOB_KEY = "parody_translator_job_v1";
+// 원문 전체를 들고 있어서 localStorage 용량을 생각해 최근 것만
+const MAX_JOBS = 10;
+// 번역 중 저장 간격 (끝/실패/취소 때는 바로 저장)
+const JOB_SAVE_INTERVAL_MS = 3000;
+
+function sourceJobKey(rawText: string, sourceUrl?: string) {
+  return sourceUrl ? `url:${sourceUrl}` : `text:${hashText(rawText.trim())}`;
+}
+
+function queueJobKey(queueItemId: string) {
+  return `queue:${queueItemId}`;
+}
+
+function sanitizeTranslationJob(job: any): TranslationJob | null {
+  if (
+    !job ||
+    typeof job.rawText !== "string" ||
+    !Array.isArray(job.chunks) ||
+    !Array.isArray(job.translated) ||
+    job.chunks.length !== job.translated.length ||
+    !job.header ||
+    !job.opts
+  ) {
+    return null;
+  }
+  return {
+    ...job,
+    key: typeof job.key === "string" && job.key ? job.key : sourceJobKey(job.rawText, job.opts.sourceUrl),
+    languages: normalizeLanguages(job.languages),
+    providers: Array.isArray(job.providers) ? job.providers : [],
+    glossaryReports: Array.isArray(job.glossaryReports) ? job.glossaryReports : [],
+    maskWarnings: Array.isArray(job.maskWarnings) ? job.maskWarnings : [],
+  };
+}
+
+function loadJobIndex(): Record<string, number> {
+  try {
+    const raw = localStorage.getItem(JOB_INDEX_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    const out: Record<string, number> = {};
+    for (const [k, v] of Object.entries(parsed)) if (typeof v === "number") out[k] = v;
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+function loadTranslationJob(key: string): TranslationJob | null {
+  try {
+    return sanitizeTranslationJob(JSON.parse(localStorage.getItem(JOB_KEY_PREFIX + key) || "null"));
+  } catch {
+    return null;
+  }
+}
+
+function loadTranslationJobs(): TranslationJob[] {
+  try {
+    const legacy = sanitizeTranslationJob(JSON.parse(localStorage.getItem(LEGACY_JOB_KEY) || "null"));
+    if (legacy && !loadTranslationJob(legacy.key)) saveTranslationJob(legacy.key, legacy);
+    localStorage.removeItem(LEGACY_JOB_KEY);
+  } catch {}
+
+  return Object.keys(loadJobIndex())
+    .map(loadTranslationJob)
+    .filter((j): j is TranslationJob => j != null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// job 이 null 이면 그 자리만 지움 (다른 원문/대기열 항목의 작업은 그대로)
+// 저장 실패(용량 초과 등)는 그대로 던짐 → 부른 쪽에서 알림
+function saveTranslationJob(key: string, job: TranslationJob | null) {
+  const index = loadJobIndex();
+  if (job) {
+    index[key] = job.updatedAt;
+    // 쓰기 전에 오래된 작업부터 지워서 자리를 만듦
+    for (const old of Object.keys(index)
+      .sort((a, b) => index[b] - index[a])
+      .slice(MAX_JOBS)) {
+      localStorage.removeItem(JOB_KEY_PREFIX + old);
+      delete index[old];
+    }
+    localStorage.setItem(JOB_KEY_PREFIX + key, JSON.stringify(job));
+  } else {
+    localStorage.removeItem(JOB_KEY_PREFIX + key);
+    delete index[key];
+  }
+  localStorage.setItem(JOB_INDEX_KEY, JSON.stringify(index));
+}
+
+/* =========================
+   시리즈별 기본 언어 (시리즈 제목 → 언어)
+========================= */
+const SERIES_LANG_KEY = "parody_translator_series_languages_v1";
+
+function loadSeriesLanguages(): Record<string, TranslateLanguages> {
+  try {
+    const raw = localStorage.getItem(SERIES_LANG_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    const out: Record<string, TranslateLanguages> = {};
+    for (const [k, v] of Object.entries(parsed)) out[k] = normalizeLanguages(v);
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+function saveSeriesLanguages(map: Record<string, TranslateLanguages>) {
+  localStorage.setItem(SERIES_LANG_KEY, JSON.stringify(map));
+}
+
 function formatDate(ts: number) {
   const d = new Date(ts);
   const yyyy = d.getFullYear();
@@ -296,6 +729,81 @@ function formatDate(ts: number) {
   return `${yyyy}-${mm}-${dd} ${hh}:${mi}`;
 }
 
+/* =========================
+   API 오류 코드 → 안내 문구 + 복구 버튼 (서버 메시지 아래에 덧붙임)
+   - cookie: 설정에서 Pixiv 쿠키 입력/갱신
+   - retry: 같은 작업 다시 실행
+   - paste: 본문을 복사해서 '텍스트 직접 번역'에 붙여넣기
+========================= */
+type ErrorAction = "cookie" | "retry" | "paste";
+
+const API_ERROR_GUIDE: Record<ApiErrorCode, { hint?: string; actions: ErrorAction[] }> = {
+  BAD_REQUEST: { actions: ["retry"] },
+  URL_MISSING: { hint: "URL 칸에 작품 주소를 넣어줘.", actions: [] },
+  URL_INVALID: { hint: "https:// 로 시작하는 전체 주소를 넣어줘.", actions: [] },
+  FILE_MISSING: { hint: "파일을 다시 골라줘.", actions: [] },
+  FILE_TOO_LARGE: { hint: "삽화가 많은 EPUB 이면 텍스트만 있는 파일로 바꿔서 올려줘.", actions: ["paste"] },
+  FILE_UNSUPPORTED: { hint: ".txt / .html / .epub 파일만 불러올 수 있어요.", actions: ["paste"] },
+  EPUB_INVALID: { hint: "DRM 이 걸렸거나 깨진 EPUB 일 수 있어요.", actions: ["paste"] },
+
+  URL_NOT_ALLOWED: {
+    hint: "보안상 서버는 내부망/로컬 주소(localhost, 192.168.x.x, 사내 주소 등)를 대신 불러오지 않아요.",
+    actions: ["paste"],
+  },
+  TOO_MANY_REDIRECTS: { hint: "주소가 다른 곳으로 계속 넘어가요. 브라우저에서 최종 주소를 열어 그 URL을 넣어줘.", actions: [] },
+  RESPONSE_TOO_LARGE: { hint: "페이지가 너무 커서 불러오지 않았어요.", actions: ["paste"] },
+  FETCH_TIMEOUT: { hint: "사이트 응답이 너무 느려요. 잠시 뒤 다시 시도해줘.", actions: ["retry"] },
+  FETCH_FAILED: { hint: "사이트가 오류를 돌려줬어요. 삭제/비공개 글이거나 일시적인 문제일 수 있어요.", actions: ["retry", "paste"] },
+  EXTRACT_EMPTY: { hint: "페이지에서 본문을 찾지 못했어요.", actions: ["paste"] },
+
+  PIXIV_COOKIE_REQUIRED: { hint: "설정에 Pixiv 쿠키(PHPSESSID)를 넣어줘.", actions: ["cookie"] },
+  PIXIV_META_FETCH_FAILED: {
+    hint: "R-18/마이픽 한정 작품이면 로그인 쿠키가 필요해요. 삭제된 작품일 수도 있어요.",
+    actions: ["cookie", "retry"],
+  },
+  PIXIV_PAGES_FETCH_FAILED: { actions: ["cookie", "retry"] },
+  PIXIV_RETURNED_NON_JSON_META: {
+    hint: "Pixiv 가 로그인/봇 확인 페이지를 돌려줬어요. 쿠키가 만료됐을 수 있어요.",
+    actions: ["cookie", "retry"],
+  },
+  PIXIV_RETURNED_NON_JSON_PAGES: {
+    hint: "Pixiv 가 로그인/봇 확인 페이지를 돌려줬어요. 쿠키가 만료됐을 수 있어요.",
+    actions: ["cookie", "retry"],
+  },
+  PIXIV_EXTRACT_EMPTY: { hint: "본문이 비어 있어요. 권한 문제일 수 있어요.", actions: ["cookie", "paste"] },
+  PIXIV_SERIES_FETCH_FAILED: { actions: ["cookie", "retry"] },
+  PIXIV_SERIES_EMPTY: { hint: "공개된 회차가 없거나 모두 권한이 필요한 회차예요.", actions: ["cookie"] },
+  PIXIV_STATUS_FETCH_FAILED: { actions: ["retry"] },
+  PIXIV_IMAGE_NOT_ALLOWED: { actions: [] },
+  PIXIV_IMAGE_FETCH_FAILED: { actions: ["retry"] },
+
+  TRANSLATE_NOT_CONFIGURED: {
+    hint: "서버 환경 변수에 번역 API 키를 설정하거나, 설정 > 번역 엔진에서 무료 Google 번역을 켜줘.",
+    actions: [],
+  },
+  TRANSLATE_RATE_LIMITED: { hint: "번역 API 요청 한도에 걸렸어요. 조금 기다렸다가 다시 시도해줘.", actions: ["retry"] },
+  TRANSLATE_FAILED: { actions: ["retry"] },
+
+  INTERNAL_ERROR: { actions: ["retry"] },
+};
+
+// 조각별 엔진 → "Google Cloud 번역" / "Google Cloud 번역 3 · LLM (OpenAI 호환) 1"
+function summarizeProviders(list: TranslateProviderId[]) {
+  const counts = new Map<TranslateProviderId, number>();
+  for (const id of list) counts.set(id, (counts.get(id) || 0) + 1);
+  if (counts.size === 1) return TRANSLATE_PROVIDER_LABELS[list[0]] || list[0];
+  return Array.from(counts)
+    .map(([id, n]) => `${TRANSLATE_PROVIDER_LABELS[id] || id} ${n}`)
+    .join(" · ");
+}
+
+// 오류 메시지 + 코드별 안내 (대기열 항목처럼 문자열만 남길 때도 사용)
+function describeError(e: any, fallback: string) {
+  const msg = String(e?.message || fallback);
+  const hint = e instanceof ApiError ? API_ERROR_GUIDE[e.code]?.hint : undefined;
+  return hint ? `${msg}\n\n${hint}` : msg;
+}
+
 async function safeReadJson(res: Response) {
   const contentType = res.headers.get("content-type") || "";
   const raw = await res.text();
@@ -380,6 +888,143 @@ function LabeledSlider(props: {
   );
 }
 
+/* =========================
+   ✅ Pixiv 태그 렌더링 (페이지 나눔 / 챕터 / 루비 / 링크)
+========================= */
+function PixivInlines({ inlines }: { inlines: PixivInline[] }) {
+  return (
+    <>
+      {inlines.map((x, i) => {
+        if (x.type === "text") return <React.Fragment key={i}>{x.text}</React.Fragment>;
+        if (x.type === "ruby")
+          return (
+            <ruby key={i}>
+              {x.base}
+              <rt style={{ fontSize: "0.55em", opacity: 0.75 }}>{x.reading}</rt>
+            </ruby>
+          );
+        // 파서에서 걸렀어도 렌더링 직전에 한 번 더 (http/https 아니면 글자만)
+        if (x.type === "link" && !isSafeLinkUrl(x.url)) return <React.Fragment key={i}>{x.text}</React.Fragment>;
+        if (x.type === "link")
+          return (
+            <a key={i} href={x.url} target="_blank" rel="noreferrer noopener" style={{ color: "inherit" }}>
+              {x.text}
+            </a>
+          );
+        return (
+          <a key={i} href={`#pixiv-page-${x.page}`} style={{ color: "inherit" }}>
+            ▶ {x.page}페이지
+          </a>
+        );
+      })}
+    </>
+  );
+}
+
+// i.pximg.net 은 Referer 검사 때문에 바로 못 띄워서 서버 프록시를 거침
+function pixivImageSrc(url: string) {
+  return /^https:\/\/i\.pximg\.net\//.test(url) ? `/api/pixiv-image?url=${encodeURIComponent(url)}` : url;
+}
+
+// 번역 메모리에서 가져온 문단만 옅게 칠함 (일반 뷰어 / Pixiv 뷰어 공용)
+function MemoryMarked({
+  text,
+  hits,
+  render,
+}: {
+  text: string;
+  hits?: Set<string>;
+  render: (part: string) => React.ReactNode;
+}) {
+  if (!hits || hits.size === 0) return <>{render(text)}</>;
+  return (
+    <>
+      {text.split(/(\n{2,})/).map((part, i) =>
+        hits.has(part.trim()) ? (
+          <span
+            key={i}
+            title="번역 메모리에서 가져온 문단"
+            style={{ background: "rgba(60,120,255,0.09)", borderRadius: 4 }}
+          >
+            {render(part)}
+          </span>
+        ) : (
+          <React.Fragment key={i}>{render(part)}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function PixivMarkupView({
+  text,
+  images,
+  memoryHits,
+}: {
+  text: string;
+  images?: Record<string, string>;
+  memoryHits?: Set<string>;
+}) {
+  const doc = useMemo(() => parsePixivMarkup(text), [text]);
+
+  return (
+    <div>
+      {doc.pages.map((page, pi) => (
+        <div key={pi} id={`pixiv-page-${pi + 1}`}>
+          {pi > 0 && (
+            <div style={{ textAlign: "center", fontSize: 12, opacity: 0.5, margin: "28px 0" }}>
+              ─── {pi + 1} ───
+            </div>
+          )}
+
+          {page.blocks.map((b, bi) => {
+            if (b.type === "chapter")
+              return (
+                <div key={bi} style={{ fontSize: "1.25em", fontWeight: 900, margin: "18px 0 12px" }}>
+                  <PixivInlines inlines={parsePixivInline(b.title)} />
+                </div>
+              );
+            if (b.type === "jump")
+              return (
+                <div key={bi} style={{ marginBottom: "1em" }}>
+                  <a href={`#pixiv-page-${b.page}`} style={{ color: "inherit" }}>
+                    ▶ {b.page}페이지로
+                  </a>
+                </div>
+              );
+            if (b.type === "image") {
+              const src = images?.[b.key];
+              return (
+                <div key={bi} style={{ margin: "1.5em 0", textAlign: "center" }}>
+                  {src ? (
+                    <img
+                      src={pixivImageSrc(src)}
+                      alt={b.key}
+                      loading="lazy"
+                      style={{ maxWidth: "100%", height: "auto", borderRadius: 8 }}
+                    />
+                  ) : (
+                    <div style={{ fontSize: 12, opacity: 0.5 }}>[삽화: {b.key}]</div>
+                  )}
+                </div>
+              );
+            }
+            return (
+              <div key={bi} style={{ marginBottom: "1em" }}>
+                <MemoryMarked
+                  text={b.text}
+                  hits={memoryHits}
+                  render={(part) => <PixivInlines inlines={parsePixivInline(part)} />}
+                />
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 /* =========================
    ✅ 세션(현재 화면) 저장/복원
 ========================= */
@@ -396,6 +1041,7 @@ type AppSession = {
   source: string;
   resultBody: string;
   showHeader: boolean;
+  images: Record<string, string>;
 
   currentHistoryId: string | null;
 };
@@ -445,16 +1091,28 @@ function looksLikeAuthorLine(line: string) {
   return false;
 }
 
-function toKoreanEpisodeHeader(n: number) {
-  return `제 ${n}화`;
+// 회차 번호 → 번역 언어 표기 (목록에 없는 언어는 원문에서 흔한 "#N")
+function episodeHeaderFor(n: number, target: string) {
+  switch (target) {
+    case "ko":
+      return `제 ${n}화`;
+    case "ja":
+    case "zh-TW":
+      return `第${n}話`;
+    case "zh-CN":
+      return `第${n}话`;
+    case "en":
+      return `Episode ${n}`;
+    default:
+      return `#${n}`;
+  }
 }
 
 // 단독 회차 표식만 추출
 // - "#01" -> "#01" 그대로 유지
-// - "第1話" -> "제 1화"
-// - "1화", "제 1화" -> "제 1화"
+// - "第1話" / "1화" / "제 1화" -> 번역 언어 표기 (ko: "제 1화", en: "Episode 1" ...)
 
-function normalizeEpisodeLine(line: string): string | null {
+function normalizeEpisodeLine(line: string, target: string = DEFAULT_LANGUAGES.target): string | null {
   const s = line.trim();
   if (!s) return null;
 
@@ -469,7 +1127,7 @@ function normalizeEpisodeLine(line: string): string | null {
   if (m?.[1]) {
     const n = Number(m[1]);
     if (Number.isFinite(n) && n >= 1 && n <= 9999) {
-      return `제 ${n}화`;
+      return episodeHeaderFor(n, target);
     }
   }
 
@@ -478,7 +1136,7 @@ function normalizeEpisodeLine(line: string): string | null {
   if (m?.[1]) {
     const n = Number(m[1]);
     if (Number.isFinite(n) && n >= 1 && n <= 9999) {
-      return `제 ${n}화`;
+      return episodeHeaderFor(n, target);
     }
   }
 
@@ -529,6 +1187,9 @@ function pickSubtitleFromLine(line: string): string | null {
   if (!raw) return null;
   if (raw.length > 120) return null;
 
+  // Pixiv 태그 줄([chapter:]/[newpage] 등)은 본문 구조라서 제목 아님
+  if (isPixivTagLine(raw)) return null;
+
   // 회차만 있는 줄은 제목 아님
   if (/^#\s*\d+\s*$/.test(raw)) return null;
   if (/^第\s*\d+\s*話\s*$/.test(raw)) return null;
@@ -555,11 +1216,12 @@ function pickSubtitleFromLine(line: string): string | null {
 
 type PixivPresetResult = {
   cleanedText: string;
+  episodeNo?: number;
   episodeHeader?: string;
   subtitle?: string;
 };
 
-function applyPixivPreset(rawText: string, stripMeta: boolean): PixivPresetResult {
+function applyPixivPreset(rawText: string, stripMeta: boolean, target: string): PixivPresetResult {
   let text = normalizeText(rawText).trim();
   if (!text) {
     return { cleanedText: "" };
@@ -580,7 +1242,7 @@ function applyPixivPreset(rawText: string, stripMeta: boolean): PixivPresetResul
     if (!raw) continue;
 
     if (!episodeHeader) {
-      const normalized = normalizeEpisodeLine(raw);
+      const normalized = normalizeEpisodeLine(raw, target);
       if (normalized) {
         episodeHeader = normalized;
       }
@@ -630,6 +1292,7 @@ function applyPixivPreset(rawText: string, stripMeta: boolean): PixivPresetResul
 
   return {
   cleanedText: cleaned,
+  episodeNo,
   episodeHeader,
   subtitle,
 };
@@ -670,6 +1333,92 @@ export default function Page() {
     setDraftSettings(settings);
     setSettingsDirty(false);
     setSettingsOpen(true);
+
+    if (providerInfo.length === 0) void loadProviderInfo();
+    setMemorySize(Object.keys(getMemory()).length);
+
+    // 저장된 쿠키가 있으면 열 때마다 로그인 상태를 다시 확인 (만료 알림)
+    if (settings.pixivCookie.trim()) void checkPixivCookieStatus(settings.pixivCookie);
+  }
+
+  const [pixivCheck, setPixivCheck] = useState<PixivCookieCheck>({ state: "idle" });
+
+  // ✅ 번역 엔진 목록 (서버에 키가 있는지 + 서버 기본 순서)
+  const [providerInfo, setProviderInfo] = useState<TranslateProviderInfo[]>([]);
+  const [serverProviderOrder, setServerProviderOrder] = useState<TranslateProviderId[]>([]);
+
+  async function loadProviderInfo() {
+    try {
+      const res = await fetch("/api/translate");
+      const data: any = await safeReadJson(res);
+      if (!res.ok || data?.__notJson) return;
+      setProviderInfo(Array.isArray(data?.providers) ? data.providers : []);
+      setServerProviderOrder(
+        Array.isArray(data?.defaultOrder) ? data.defaultOrder.filter(isTranslateProviderId) : []
+      );
+    } catch {}
+  }
+
+  // 동시 처리 수가 첫 번째 엔진 기준이라, 설정 순서가 비어 있을 때 쓸 서버 기본 순서를 처음에 받아 둠
+  useEffect(() => {
+    void loadProviderInfo();
+  }, []);
+
+  // 설정에 순서가 비어 있으면 서버 기본 순서를 보여주고, 처음 손대는 순간 그 순서로 복사
+  const draftProviderOrder =
+    draftSettings.translateProviders.length > 0 ? draftSettings.translateProviders : serverProviderOrder;
+
+  const providerRows = [
+    ...draftProviderOrder.map((id, index) => ({ id, enabled: true, index })),
+    ...(Object.keys(TRANSLATE_PROVIDER_LABELS) as TranslateProviderId[])
+      .filter((id) => !draftProviderOrder.includes(id))
+      .map((id) => ({ id, enabled: false, index: -1 })),
+  ];
+
+  function toggleDraftProvider(id: TranslateProviderId, on: boolean) {
+    const next = on ? [...draftProviderOrder, id] : draftProviderOrder.filter((x) => x !== id);
+    // 전부 끄면 서버 기본 순서로
+    updateDraft({ translateProviders: next });
+  }
+
+  function moveDraftProvider(id: TranslateProviderId, dir: -1 | 1) {
+    const next = [...draftProviderOrder];
+    const i = next.indexOf(id);
+    const j = i + dir;
+    if (i < 0 || j < 0 || j >= next.length) return;
+    [next[i], next[j]] = [next[j], next[i]];
+    updateDraft({ translateProviders: next });
+  }
+
+  async function checkPixivCookieStatus(cookie: string) {
+    if (!cookie.trim()) {
+      setPixivCheck({ state: "idle" });
+      return;
+    }
+
+    setPixivCheck({ state: "checking" });
+    try {
+      const res = await fetch("/api/pixiv-status", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cookie: cookie.trim() }),
+      });
+      const data: any = await safeReadJson(res);
+
+      if (!res.ok || data?.__notJson) {
+        setPixivCheck({ state: "error", error: describeError(apiErrorFromResponse(res, data, "확인 실패"), "확인 실패") });
+        return;
+      }
+
+      setPixivCheck({
+        state: data?.loggedIn ? "ok" : "expired",
+        userId: String(data?.userId ?? ""),
+        userName: String(data?.userName ?? ""),
+        xRestrict: Number(data?.xRestrict) || 0,
+      });
+    } catch (e: any) {
+      setPixivCheck({ state: "error", error: e?.message || "확인 실패" });
+    }
   }
 
   function updateDraft(patch: Partial<AppSettings>) {
@@ -700,10 +1449,51 @@ export default function Page() {
   const [url, setUrl] = useState("");
   const [isFetchingUrl, setIsFetchingUrl] = useState(false);
 
+  // ✅ 전용 추출기가 있는 사이트 목록 (URL 옆 "지원 사이트" 힌트)
+  const [supportedSites, setSupportedSites] = useState<SupportedSite[]>([]);
+
+  useEffect(() => {
+    let alive = true;
+    fetch("/api/extract")
+      .then((res) => res.json())
+      .then((data) => {
+        if (alive && Array.isArray(data?.sites)) setSupportedSites(data.sites);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const urlSite = useMemo(() => {
+    const u = url.trim();
+    if (!u) return null;
+    let host = "";
+    try {
+      host = new URL(u).hostname;
+    } catch {
+      return null;
+    }
+    const site = supportedSites.find((s) =>
+      s.hosts.some((h) => host === h || host.endsWith(`.${h}`))
+    );
+    return { host, site: site || null };
+  }, [url, supportedSites]);
+
   /* =========================
      텍스트 직접 번역
   ========================= */
   const [manualOpen, setManualOpen] = useState(false);
+  const manualInputRef = useRef<HTMLTextAreaElement | null>(null);
+
+  // 오류 안내의 "직접 붙여넣기" 버튼: 직접 번역 칸을 펼치고 입력 위치로 이동
+  function openManualPaste() {
+    setManualOpen(true);
+    setTimeout(() => {
+      manualInputRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+      manualInputRef.current?.focus();
+    }, 0);
+  }
 
   /* =========================
      메타
@@ -726,11 +1516,48 @@ export default function Page() {
   ========================= */
   const [source, setSource] = useState("");
   const [resultBody, setResultBody] = useState("");
+  // 현재 결과의 삽화 URL (Pixiv)
+  const [resultImages, setResultImages] = useState<Record<string, string>>({});
+  // 본문 조각별 번역 엔진 (결과 위에 요약 표시)
+  const [resultProviders, setResultProviders] = useState<TranslateProviderId[]>([]);
+  // 용어집 적용 결과 (결과 위에 표시)
+  const [resultGlossary, setResultGlossary] = useState<GlossaryReport | null>(null);
+  const [resultMaskWarnings, setResultMaskWarnings] = useState<MaskWarning[]>([]);
+  // 지금 번역 중인 조각의 중간 결과 (결과 맨 아래에 흐리게 표시, 세션에는 저장 안 함)
+  const [streamingText, setStreamingText] = useState("");
+  // 이번 결과에서 번역 메모리로 채운 문단 (뷰어에서 따로 표시)
+  const [resultMemoryHits, setResultMemoryHits] = useState<string[]>([]);
+  // 끝나지 않은 번역 작업들 (새로고침 뒤에도 남아 있음 → “이어서 번역”, 최근 것부터)
+  const [pendingJobs, setPendingJobs] = useState<TranslationJob[]>(() => {
+    if (typeof window === "undefined") return [];
+    return loadTranslationJobs();
+  });
+  // 이번 번역의 이어하기 작업을 저장하지 못함 (브라우저 저장 공간 부족 등)
+  const [jobSaveFailed, setJobSaveFailed] = useState(false);
+  const memoryHitSet = useMemo(() => new Set(resultMemoryHits.map((t) => t.trim())), [resultMemoryHits]);
   const [showHeader, setShowHeader] = useState(false);
-  const [error, setError] = useState("");
+  const [error, setErrorText] = useState("");
+  // 마지막 오류의 코드/다시 시도할 작업 (오류 아래 복구 버튼용)
+  const [errorInfo, setErrorInfo] = useState<{ code: ApiErrorCode | null; retry?: () => void } | null>(null);
+
+  function setError(msg: string) {
+    setErrorText(msg);
+    setErrorInfo(null);
+  }
+
+  function showError(e: any, fallback: string, retry?: () => void) {
+    setErrorText(describeError(e, fallback));
+    setErrorInfo({ code: e instanceof ApiError ? e.code : null, retry });
+  }
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState<Progress>(null);
   const abortRef = useRef<AbortController | null>(null);
+  // 대기열 번역용 (화면에서 시작한 번역과 서로 끊지 않게 따로)
+  const queueAbortRef = useRef<AbortController | null>(null);
+  // 진행 중인 번역 수 (화면 + 대기열) → 모두 끝나야 로딩 표시를 끔
+  const activeRunsRef = useRef(0);
+  const retryCountRef = useRef(0);
+  const fallbackCountRef = useRef(0);
 
   /* =========================
      History / Folder
@@ -747,40 +1574,186 @@ export default function Page() {
     return loadFolders().sort((a, b) => a.createdAt - b.createdAt);
   });
 
+  // ✅ 대기열처럼 한 번의 비동기 흐름에서 폴더를 여러 번 만들 때 최신 목록을 보려고 ref로도 들고 있음
+  const foldersRef = useRef(folders);
+  foldersRef.current = folders;
+
   const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
 
   // 전체(null) 또는 현재 폴더
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
 
-  // + 메뉴
-  const [menuOpen, setMenuOpen] = useState(false);
-  const [menuAnchor, setMenuAnchor] = useState<{ right: number; bottom: number } | null>(null);
+  /* =========================
+     번역 언어: 시리즈 기본값 → 폴더(상위 폴더 포함) 기본값 → 설정 기본값
+  ========================= */
+  const [seriesLanguages, setSeriesLanguages] = useState<Record<string, TranslateLanguages>>(() => {
+    if (typeof window === "undefined") return {};
+    return loadSeriesLanguages();
+  });
 
-  // 파일 선택 모드
-  const [selectMode, setSelectMode] = useState(false);
-  const [selectedIds, setSelectedIds] = useState<Record<string, boolean>>({});
+  function resolveLanguages(series: string, folderId: string | null): { languages: TranslateLanguages; from: string } {
+    const bySeries = series.trim() ? seriesLanguages[series.trim()] : undefined;
+    if (bySeries) return { languages: bySeries, from: "시리즈" };
 
-  // 이동 모달
-  const [movePickerOpen, setMovePickerOpen] = useState(false);
-  const [moveTargetFolderId, setMoveTargetFolderId] = useState<string | null>(null);
+    // 순환 참조로 멈추지 않게 방문한 폴더는 다시 보지 않음
+    const seen = new Set<string>();
+    for (let id = folderId; id && !seen.has(id); ) {
+      seen.add(id);
+      const f = foldersRef.current.find((x) => x.id === id);
+      if (!f) break;
+      if (f.languages) return { languages: f.languages, from: `폴더 “${f.name}”` };
+      id = f.parentId;
+    }
 
-  // 페이지네이션
-  const PAGE_SIZE = 8;
-  const [historyPage, setHistoryPage] = useState(1);
+    return { languages: settings.defaultLanguages, from: "기본" };
+  }
 
-  // ✅ 헤더는 “회차(큰 제목) + 번역된 부제목(작은 줄)”
-  //    회차가 없으면 epLine은 빈 문자열
-  const headerPreview = useMemo(() => {
-    // ✅ 원문 표식이 있으면 그대로, 없으면(구버전/예외) episodeNo 기반으로 fallback
-    const epLine = episodeHeader.trim()
-      ? episodeHeader.trim()
-      : episodeNo != null
-      ? `제 ${episodeNo}화`
-      : "";
+  // 화면에서 직접 고른 언어 (작품/폴더가 바뀌면 다시 기본값으로)
+  const [langOverride, setLangOverride] = useState<TranslateLanguages | null>(null);
+  useEffect(() => {
+    setLangOverride(null);
+  }, [seriesTitle, selectedFolderId]);
+
+  const currentLang = langOverride
+    ? { languages: langOverride, from: "직접 선택" }
+    : resolveLanguages(seriesTitle, selectedFolderId);
+
+  function setSeriesDefaultLanguages(series: string, languages: TranslateLanguages | null) {
+    const key = series.trim();
+    if (!key) return;
+    const next = { ...seriesLanguages };
+    if (languages) next[key] = languages;
+    else delete next[key];
+    setSeriesLanguages(next);
+    try {
+      saveSeriesLanguages(next);
+    } catch {}
+  }
+
+  function setFolderDefaultLanguages(folderId: string | null, languages: TranslateLanguages | null) {
+    if (!folderId) return;
+    persistFolders(
+      foldersRef.current.map((f) => (f.id === folderId ? { ...f, languages: languages || undefined } : f))
+    );
+  }
+
+  /* =========================
+     용어집: 시리즈 → 폴더(가까운 폴더부터) → 전체 순으로 우선
+  ========================= */
+  const [glossary, setGlossary] = useState<ScopedGlossaryEntry[]>(() => {
+    if (typeof window === "undefined") return [];
+    return loadGlossary();
+  });
+
+  function persistGlossary(next: ScopedGlossaryEntry[]) {
+    setGlossary(next);
+    try {
+      saveGlossary(next);
+    } catch {}
+  }
+
+  function resolveGlossary(series: string, folderId: string | null): GlossaryEntry[] {
+    const pick = (scope: GlossaryScope, key: string) =>
+      glossary
+        .filter((e) => e.scope === scope && e.scopeKey === key && !glossaryEntryError(e))
+        .map(({ id, source, target, caseSensitive, regex }) => ({ id, source, target, caseSensitive, regex }));
+
+    const out = series.trim() ? pick("series", series.trim()) : [];
+    const seen = new Set<string>();
+    for (let id = folderId; id && !seen.has(id); ) {
+      seen.add(id);
+      out.push(...pick("folder", id));
+      id = foldersRef.current.find((x) => x.id === id)?.parentId ?? null;
+    }
+    out.push(...pick("global", ""));
+    return out;
+  }
+
+  /* =========================
+     번역 메모리 (처음 쓸 때 localStorage 에서 읽어 ref 로 들고 있음)
+  ========================= */
+  const memoryRef = useRef<TranslationMemory | null>(null);
+  const [memorySize, setMemorySize] = useState(0);
+
+  function getMemory() {
+    if (!memoryRef.current) memoryRef.current = loadTranslationMemory();
+    return memoryRef.current;
+  }
+
+  function persistMemory() {
+    const next = pruneMemory(getMemory());
+    memoryRef.current = next;
+    setMemorySize(Object.keys(next).length);
+    try {
+      saveTranslationMemory(next);
+    } catch {}
+  }
+
+  function clearTranslationMemory() {
+    memoryRef.current = {};
+    setMemorySize(0);
+    try {
+      localStorage.removeItem(MEMORY_KEY);
+    } catch {}
+  }
+
+  // 설정 화면에서 편집 중인 범위
+  const [glossaryScope, setGlossaryScope] = useState<GlossaryScope>("global");
+
+  function glossaryScopeKey(scope: GlossaryScope) {
+    if (scope === "series") return seriesTitle.trim();
+    if (scope === "folder") return selectedFolderId || "";
+    return "";
+  }
+
+  function updateGlossaryEntry(id: string, patch: Partial<GlossaryEntry>) {
+    persistGlossary(glossary.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+  }
+
+  function addGlossaryEntry() {
+    const scopeKey = glossaryScopeKey(glossaryScope);
+    if (glossaryScope !== "global" && !scopeKey) return;
+    persistGlossary([...glossary, { id: uid(), source: "", target: "", scope: glossaryScope, scopeKey }]);
+  }
+
+  function removeGlossaryEntry(id: string) {
+    persistGlossary(glossary.filter((e) => e.id !== id));
+  }
+
+  // + 메뉴
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [menuAnchor, setMenuAnchor] = useState<{ right: number; bottom: number } | null>(null);
+
+  // 파일 선택 모드
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Record<string, boolean>>({});
+
+  // 이동 모달
+  const [movePickerOpen, setMovePickerOpen] = useState(false);
+  const [moveTargetFolderId, setMoveTargetFolderId] = useState<string | null>(null);
+
+  // 페이지네이션
+  const PAGE_SIZE = 8;
+  const [historyPage, setHistoryPage] = useState(1);
+
+  // 목록 필터 (작품 정보 기준)
+  const [historyQuery, setHistoryQuery] = useState("");
+  const [historyTag, setHistoryTag] = useState<string | null>(null);
+  const [historyRating, setHistoryRating] = useState<"all" | "general" | "r18">("all");
+
+  // ✅ 헤더는 “회차(큰 제목) + 번역된 부제목(작은 줄)”
+  //    회차가 없으면 epLine은 빈 문자열
+  const headerPreview = useMemo(() => {
+    // ✅ 원문 표식이 있으면 그대로, 없으면(구버전/예외) episodeNo 기반으로 fallback
+    const epLine = episodeHeader.trim()
+      ? episodeHeader.trim()
+      : episodeNo != null
+      ? episodeHeaderFor(episodeNo, currentLang.languages.target)
+      : "";
 
     const subLine = translatedSubtitle.trim();
     return { epLine, subLine };
-  }, [episodeHeader, episodeNo, translatedSubtitle]);
+  }, [episodeHeader, episodeNo, translatedSubtitle, currentLang.languages.target]);
 
   const percent =
     progress && progress.total ? Math.floor((progress.current / progress.total) * 100) : 0;
@@ -793,6 +1766,9 @@ export default function Page() {
   const canPrev = currentIndex >= 0 && currentIndex < history.length - 1;
   const canNext = currentIndex > 0;
 
+  // 지금 보고 있는 항목의 다음 회차 URL (추출 때 찾은 경우만)
+  const nextEpisodeUrl = currentIndex >= 0 ? history[currentIndex]?.nextUrl || "" : "";
+
   const parentFolderId = useMemo(() => {
     if (selectedFolderId === null) return null;
     const me = folders.find((f) => f.id === selectedFolderId);
@@ -821,9 +1797,32 @@ export default function Page() {
   }, [folders, selectedFolderId]);
 
   const filteredHistory = useMemo(() => {
-    if (selectedFolderId === null) return history;
-    return history.filter((h) => (h.folderId || null) === selectedFolderId);
-  }, [history, selectedFolderId]);
+    const inFolder =
+      selectedFolderId === null ? history : history.filter((h) => (h.folderId || null) === selectedFolderId);
+
+    const q = historyQuery.trim().toLowerCase();
+    return inFolder.filter((h) => {
+      const m = h.sourceMeta;
+      if (historyTag && !(m?.tags || []).includes(historyTag)) return false;
+      if (historyRating === "general" && (m?.xRestrict || 0) > 0) return false;
+      if (historyRating === "r18" && !((m?.xRestrict || 0) > 0)) return false;
+      if (!q) return true;
+
+      const hay = [
+        h.seriesTitle,
+        h.subtitle,
+        h.translatedSubtitle,
+        m?.author,
+        m?.seriesTitle,
+        m?.caption,
+        ...(m?.tags || []),
+      ]
+        .filter(Boolean)
+        .join("\n")
+        .toLowerCase();
+      return hay.includes(q);
+    });
+  }, [history, selectedFolderId, historyQuery, historyTag, historyRating]);
 
   const totalPages = useMemo(
     () => Math.max(1, Math.ceil(filteredHistory.length / PAGE_SIZE)),
@@ -848,6 +1847,7 @@ export default function Page() {
   }
 
   function persistFolders(next: HistoryFolder[]) {
+    foldersRef.current = next;
     setFolders(next);
     try {
       saveFolders(next);
@@ -882,6 +1882,7 @@ export default function Page() {
 
     if (typeof s.source === "string") setSource(s.source);
     if (typeof s.resultBody === "string") setResultBody(s.resultBody);
+    setResultImages(sanitizeImageMap(s.images) || {});
     if (typeof s.showHeader === "boolean") setShowHeader(s.showHeader);
 
     if (typeof s.currentHistoryId === "string" || s.currentHistoryId === null)
@@ -903,6 +1904,7 @@ useEffect(() => {
       source,
       resultBody,
       showHeader,
+      images: resultImages,
       currentHistoryId,
     };
     saveSession(payload);
@@ -918,6 +1920,7 @@ useEffect(() => {
   source,
   resultBody,
   showHeader,
+  resultImages,
   currentHistoryId,
 ]);
 
@@ -1115,6 +2118,11 @@ useEffect(() => {
   setTranslatedSubtitle(it.translatedSubtitle || "");
   setSource(it.sourceText);
   setResultBody(it.translatedText || "");
+  setResultImages(it.images || {});
+  setResultProviders(it.providers || []);
+  setResultGlossary(it.glossary || null);
+  setResultMaskWarnings(it.maskWarnings || []);
+  setResultMemoryHits([]);
   setShowHeader(!!it.showHeader);
   setError("");
   setProgress(null);
@@ -1148,25 +2156,106 @@ useEffect(() => {
   ========================= */
   async function translateChunk(
   text: string,
-  signal?: AbortSignal
-): Promise<string> {
+  signal: AbortSignal | undefined,
+  languages: TranslateLanguages,
+  glossaryEntries: GlossaryEntry[] = [],
+  // 주면 스트리밍으로 받아서 지금까지 번역된 텍스트를 계속 넘겨줌
+  onPartial?: (text: string) => void
+): Promise<TranslateResponse> {
   const res = await fetch("/api/translate", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ text }),
+    body: JSON.stringify({
+      text,
+      source: languages.source,
+      target: languages.target,
+      providers: settings.translateProviders.length > 0 ? settings.translateProviders : undefined,
+      glossary: glossaryEntries.length > 0 ? glossaryEntries : undefined,
+      stream: onPartial ? true : undefined,
+    }),
     signal,
   });
 
+  // 스트림 시작 전 실패(요청 형식 등)는 보통 JSON 응답
+  if (onPartial && res.ok && res.body && (res.headers.get("content-type") || "").includes("ndjson")) {
+    return readTranslateStream(res.body, languages, onPartial);
+  }
+
   const data = await res.json().catch(() => ({}));
 
-  if (!res.ok) {
-    const msg =
-      (data && ((data as any).error || (data as any).message)) ||
-      `번역 실패 (${res.status})`;
-    throw new Error(String(msg));
+  if (!res.ok) throw apiErrorFromResponse(res, data, "번역 실패");
+  return acceptTranslateResponse(data, languages);
+  }
+
+  function acceptTranslateResponse(data: any, languages: TranslateLanguages): TranslateResponse {
+  retryCountRef.current += Number((data as any)?.retries) || 0;
+  if (Array.isArray((data as any)?.fallbacks)) fallbackCountRef.current += 1;
+  return {
+    translated: String((data as any)?.translated ?? ""),
+    provider: (data as any)?.provider,
+    languages,
+    retries: Number((data as any)?.retries) || 0,
+    fallbacks: (data as any)?.fallbacks,
+    glossary: sanitizeGlossaryReport((data as any)?.glossary),
+  };
+  }
+
+  // NDJSON: start → attempt → delta… → done | error
+  async function readTranslateStream(
+  body: ReadableStream<Uint8Array>,
+  languages: TranslateLanguages,
+  onPartial: (text: string) => void
+): Promise<TranslateResponse> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let partial = "";
+  let glossaryTargets: string[] = [];
+
+  // 중간 결과에도 용어집 표식 대신 번역어를 보여줌
+  const show = () =>
+    onPartial(partial.replace(/⟦\s*G\s*(\d+)\s*⟧/gi, (m, n) => glossaryTargets[Number(n) - 1] ?? m));
+
+  const handle = (line: string): TranslateResponse | null => {
+    if (!line.trim()) return null;
+    let ev: TranslateStreamEvent;
+    try {
+      ev = JSON.parse(line);
+    } catch {
+      return null;
+    }
+
+    if (ev.type === "start") glossaryTargets = ev.glossaryTargets || [];
+    else if (ev.type === "attempt") {
+      // 앞 엔진이 중간에 실패 → 다음 엔진으로 처음부터
+      partial = "";
+      show();
+    } else if (ev.type === "delta") {
+      partial += ev.text;
+      show();
+    } else if (ev.type === "error") {
+      retryCountRef.current += Number(ev.retries) || 0;
+      throw new ApiError(ev.code || "INTERNAL_ERROR", ev.status || 500, ev.error || "번역 실패", ev.debug);
+    } else if (ev.type === "done") return acceptTranslateResponse(ev, languages);
+    return null;
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      const r = handle(line);
+      if (r) return r;
+    }
   }
 
-  return String((data as any)?.translated ?? "");
+  const last = handle(buffer + decoder.decode());
+  if (last) return last;
+  throw new ApiError("TRANSLATE_FAILED", 502, "번역 응답이 중간에 끊겼어요.");
   }
 
   function autoSaveToHistory(params: {
@@ -1179,7 +2268,15 @@ useEffect(() => {
   subtitle: string;
   translatedSubtitle: string;
   showHeader: boolean;
-}) {
+  // 시리즈 대기열처럼 현재 폴더와 다른 곳에 저장할 때만 지정
+  folderId?: string | null;
+  images?: Record<string, string>;
+  sourceMeta?: ExtractMeta;
+  providers?: TranslateProviderId[];
+  languages?: TranslateLanguages;
+  glossary?: GlossaryReport;
+  maskWarnings?: MaskWarning[];
+}): HistoryItem {
   const item: HistoryItem = {
     id: uid(),
     createdAt: Date.now(),
@@ -1194,18 +2291,77 @@ useEffect(() => {
     sourceText: params.sourceText,
     translatedText: params.translatedBody,
     url: params.url?.trim() || undefined,
-    folderId: selectedFolderId || null,
+    folderId: params.folderId !== undefined ? params.folderId : selectedFolderId || null,
     showHeader: params.showHeader,
+    images: sanitizeImageMap(params.images),
+    sourceMeta: params.sourceMeta,
+    prevUrl: params.sourceMeta?.prevUrl || undefined,
+    nextUrl: params.sourceMeta?.nextUrl || undefined,
+    providers: params.providers,
+    languages: params.languages,
+    glossary: params.glossary,
+    maskWarnings: params.maskWarnings && params.maskWarnings.length > 0 ? params.maskWarnings : undefined,
   };
 
-  const next = [item, ...history].sort((a, b) => b.createdAt - a.createdAt);
-  persistHistory(next);
+  // ✅ 대기열에서 연속 저장될 수 있어서 최신 history 기준으로 갱신
+  setHistory((prev) => {
+    const next = [item, ...prev].sort((a, b) => b.createdAt - a.createdAt);
+    try {
+      saveHistory(next);
+    } catch {}
+    return next;
+  });
   setCurrentHistoryId(item.id);
   setHistoryPage(1);
+  return item;
 }
 
+  function upsertPendingJob(job: TranslationJob) {
+    setPendingJobs((prev) => [job, ...prev.filter((j) => j.key !== job.key)]);
+  }
+
+  function resumePendingJob(job: TranslationJob) {
+    if (isLoading) return;
+    void runTranslation(job.rawText, { ...job.opts, resume: job });
+  }
+
+  function discardPendingJob(job: TranslationJob) {
+    const done = job.translated.filter((t) => t != null).length;
+    if (!confirm(`끝나지 않은 번역을 버릴까요? (${done}/${job.chunks.length}조각 완료)\n버리면 다시 처음부터 번역해야 해요.`)) {
+      return;
+    }
+    setPendingJobs((prev) => prev.filter((j) => j.key !== job.key));
+    try {
+      saveTranslationJob(job.key, null);
+    } catch {}
+  }
+
+  // 화면에서 번역 중이면 그것부터, 없으면 대기열 번역을 취소
   function handleCancel() {
-    abortRef.current?.abort();
+    (abortRef.current ?? queueAbortRef.current)?.abort();
+  }
+
+  // 수동/URL 번역 시작: 같은 원문에 끝나지 않은 작업이 있으면 덮어쓰기 전에 이어할지 물어봄
+  // (대기열은 묻지 않고 항목별 작업을 이어함 → processQueue)
+  function startTranslation(rawText: string, opts: Parameters<typeof runTranslation>[1]) {
+    const key = sourceJobKey(rawText, opts?.sourceUrl);
+    const saved = rawText.trim() ? loadTranslationJob(key) : null;
+    if (saved) {
+      const done = saved.translated.filter((t) => t != null).length;
+      if (
+        confirm(
+          `이 원문은 끝나지 않은 번역이 있어요. (${done}/${saved.chunks.length}조각 완료)\n` +
+            "이어서 번역할까요? (취소하면 남아 있던 작업을 버리고 처음부터 다시 번역해요)"
+        )
+      ) {
+        return runTranslation(saved.rawText, { ...saved.opts, resume: saved });
+      }
+      try {
+        saveTranslationJob(key, null);
+      } catch {}
+      setPendingJobs((prev) => prev.filter((j) => j.key !== key));
+    }
+    return runTranslation(rawText, opts);
   }
 
   /* =========================
@@ -1213,20 +2369,169 @@ useEffect(() => {
   ========================= */
   async function runTranslation(
     rawText: string,
-    opts?: { mode: "manual" | "url"; sourceUrl?: string }
-  ) {
-    if (!rawText.trim()) return;
+    opts?: {
+      mode: "manual" | "url";
+      sourceUrl?: string;
+      title?: string;
+      // 시리즈 대기열에서 넘겨주는 값 (state가 아직 반영되기 전이라 직접 전달)
+      seriesTitle?: string;
+      episodeNo?: number | null;
+      folderId?: string | null;
+      // 사이트 추출기가 준 회차 메타 (Hameln 등)
+      meta?: ExtractMeta;
+      // 본문 삽화 URL (Pixiv)
+      images?: Record<string, string>;
+      // 지정하지 않으면 화면 선택 → 시리즈/폴더 기본값
+      languages?: TranslateLanguages;
+      // 대기열 항목별 진행 표시용
+      onProgress?: (current: number, total: number) => void;
+      // 끝나지 않은 작업을 남은 조각부터 이어서
+      resume?: TranslationJob;
+      // 작업 보관 자리 (대기열 항목별). 없으면 원문(URL/본문) 기준
+      jobKey?: string;
+      // 취소용 controller 자리 (대기열은 queueAbortRef). 없으면 abortRef
+      controllerRef?: React.MutableRefObject<AbortController | null>;
+    }
+  ): Promise<TranslationRunResult> {
+    if (!rawText.trim()) return { ok: false, error: "번역할 원문이 비어 있어요." };
+
+    const resume = opts?.resume;
+    const jobKey = resume?.key ?? opts?.jobKey ?? sourceJobKey(rawText, opts?.sourceUrl);
 
     const mode = opts?.mode ?? "manual";
 
+    activeRunsRef.current++;
     setIsLoading(true);
     setError("");
     setResultBody("");
+    setResultImages(opts?.images || {});
+    setResultProviders([]);
+    setResultGlossary(null);
+    setResultMaskWarnings([]);
+    setResultMemoryHits([]);
     setProgress(null);
+    setJobSaveFailed(false);
+    retryCountRef.current = 0;
+    fallbackCountRef.current = 0;
 
-    abortRef.current?.abort();
+    // 대기열은 따로 controller 를 둠 → 화면에서 시작한 번역이 대기열 번역을 끊지 않음 (그 반대도)
+    const controllerRef = opts?.controllerRef ?? abortRef;
+    controllerRef.current?.abort();
     const controller = new AbortController();
-    abortRef.current = controller;
+    controllerRef.current = controller;
+
+    // 지금 다시 돌리는 작업만 목록에서 내림 (다른 원문/대기열 항목의 작업은 그대로)
+    setPendingJobs((prev) => prev.filter((j) => j.key !== jobKey));
+
+    const languages =
+      resume?.languages ??
+      opts?.languages ??
+      langOverride ??
+      resolveLanguages(opts?.seriesTitle ?? seriesTitle, opts?.folderId !== undefined ? opts.folderId : selectedFolderId)
+        .languages;
+
+    // 시리즈/폴더 용어집 (제목·부제목·본문 모두 적용)
+    const glossaryEntries = resolveGlossary(
+      opts?.seriesTitle ?? seriesTitle,
+      opts?.folderId !== undefined ? opts.folderId : selectedFolderId
+    );
+    const glossaryReports: GlossaryReport[] = [...(resume?.glossaryReports || [])];
+    const maskWarnings: MaskWarning[] = [...(resume?.maskWarnings || [])];
+
+    // 회차 줄/URL/태그는 ⟦P1⟧ 로 가려서 보내고 받은 뒤 되돌림, 루비는 본문 글자만 (용어집은 서버에서 ⟦G1⟧)
+    const translate = async (text: string, label: string, onPartial?: (text: string) => void) => {
+      const mask = maskPlaceholders(text);
+      const r = await translateChunk(
+        mask.text,
+        controller.signal,
+        languages,
+        glossaryEntries,
+        onPartial && ((partial) => onPartial(unmaskPlaceholders(partial, mask).text))
+      );
+      if (r.glossary) glossaryReports.push(r.glossary);
+
+      const { text: translated, missing } = unmaskPlaceholders(r.translated, mask);
+      const lostTerms = (r.glossary?.missing || []).map(
+        (id) => glossaryEntries.find((e) => e.id === id)?.source || id
+      );
+      if (missing.length > 0 || lostTerms.length > 0) {
+        maskWarnings.push({ label, missing: [...missing, ...lostTerms] });
+      }
+      return { ...r, translated };
+    };
+
+    // 동시 처리 수/번역 메모리는 첫 번째 엔진 기준
+    const primary = settings.translateProviders[0] ?? serverProviderOrder[0] ?? "google-cloud";
+
+    // ✅ 번역 메모리: 조각 전체 → 문단별 순으로 찾고, 없는 문단만 보냄
+    const memoryCtx: MemoryContext = { provider: primary, languages, glossaryVersion: glossaryVersion(glossaryEntries) };
+    const memoryHits: string[] = [];
+
+    const recall = (p: string) => {
+      const hit = getMemory()[memoryKey(p, memoryCtx)];
+      if (!hit) return null;
+      hit.at = Date.now();
+      return hit;
+    };
+
+    const remember = (p: string, t: string, provider: TranslateProviderId) => {
+      if (t.trim()) getMemory()[memoryKey(p, { ...memoryCtx, provider })] = { t, at: Date.now(), provider };
+    };
+
+    const translateWithMemory = async (
+      text: string,
+      label: string,
+      onPartial?: (text: string) => void
+    ): Promise<{ translated: string; provider: TranslateProviderId }> => {
+      if (!settings.useTranslationMemory) return translate(text, label, onPartial);
+
+      // 결과는 실제로 번역한 엔진 기준 (엔진 기록이 없는 예전 항목은 primary)
+      const whole = recall(text);
+      if (whole) {
+        memoryHits.push(...splitParagraphs(whole.t));
+        return { translated: whole.t, provider: whole.provider ?? primary };
+      }
+
+      const paras = splitParagraphs(text);
+      const hits = paras.map(recall);
+      const cached = hits.map((h) => h?.t ?? null);
+      const missing = paras.map((_, i) => i).filter((i) => cached[i] == null);
+      if (missing.length === 0) {
+        memoryHits.push(...cached);
+        return { translated: cached.join("\n\n"), provider: hits[0]?.provider ?? primary };
+      }
+
+      // 빠진 문단이 한 덩어리로 이어져 있을 때만 그 부분만 보냄
+      // (흩어져 있으면 조각 전체를 한 번에 → 어느 쪽이든 요청은 한 번)
+      const first = missing[0];
+      const last = missing[missing.length - 1];
+      const send = last - first + 1 === missing.length ? missing : paras.map((_, i) => i);
+
+      const r = await translate(send.map((i) => paras[i]).join("\n\n"), label, onPartial);
+      const out = splitParagraphs(r.translated);
+
+      if (out.length === send.length) {
+        send.forEach((pi, k) => {
+          cached[pi] = out[k];
+          remember(paras[pi], out[k], r.provider);
+        });
+        memoryHits.push(...cached.filter((_, i) => !send.includes(i)));
+        return {
+          translated: send.length === paras.length ? r.translated : cached.join("\n\n"),
+          provider: r.provider,
+        };
+      }
+
+      // 엔진이 문단을 합치거나 나눠서 짝을 못 맞춤 → 다시 보내지 않고 받은 덩어리를 그 자리에 끼움
+      // (문단 단위로는 못 나누므로 조각 전체로만 기억)
+      const translated =
+        send.length === paras.length
+          ? r.translated
+          : [...cached.slice(0, first), r.translated.trim(), ...cached.slice(last + 1)].join("\n\n");
+      memoryHits.push(...cached.filter((t, i) => t != null && (i < first || i > last)));
+      remember(text, translated, r.provider);
+      return { ...r, translated };
+    };
 
     // ✅ 작업용 변수 (원문에서 추출 못하면 null 유지)
     let workingText = rawText;
@@ -1239,10 +2544,84 @@ useEffect(() => {
     let extractedEpisode = false;
     let extractedSubtitle = false;
 
+    // ✅ 부제목 확정 + 표시용 번역
+    const applySubtitle = async (sub: string | undefined) => {
+      if (typeof sub === "string" && sub.trim()) {
+        nextSubtitle = sub.trim();
+        extractedSubtitle = true;
+        setSubtitle(nextSubtitle);
+
+        // ✅ 부제목도 번역해서 표시용으로 저장
+        try {
+          const subKo = (await translate(nextSubtitle, "부제목")).translated;
+          nextTranslatedSubtitle = subKo.trim();
+          setTranslatedSubtitle(nextTranslatedSubtitle);
+        } catch {
+          // 부제목 번역 실패해도 본문 번역은 진행
+          nextTranslatedSubtitle = nextSubtitle;
+          setTranslatedSubtitle(nextTranslatedSubtitle);
+        }
+      } else {
+        extractedSubtitle = false;
+        nextSubtitle = "";
+        nextTranslatedSubtitle = "";
+        setSubtitle("");
+        setTranslatedSubtitle("");
+      }
+    };
+
+    const siteMeta = opts?.meta;
+    const metaEpisodeNo = typeof siteMeta?.episodeNo === "number" ? siteMeta.episodeNo : null;
+    const metaSubtitle = siteMeta?.episodeTitle ? pickSubtitleFromLine(siteMeta.episodeTitle) || "" : "";
+
+    // 조각 계획이 정해진 뒤부터 저장 (실패/취소 때 상태만 바꿔서 남김)
+    // - 조각마다 바로 쓰면 긴 회차에서 화면이 버벅이므로 번역 중에는 JOB_SAVE_INTERVAL_MS 에 한 번
+    // - 저장 실패(용량 초과 등)는 알림 → 이어하기가 안 된다는 걸 알 수 있게
+    let snapshot: (() => TranslationJob) | null = null;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    const persistJob = (next: TranslationJob | null) => {
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = null;
+      try {
+        saveTranslationJob(jobKey, next);
+      } catch {
+        if (next) setJobSaveFailed(true);
+      }
+    };
+    const persistJobSoon = () => {
+      if (saveTimer) return;
+      saveTimer = setTimeout(() => {
+        saveTimer = null;
+        if (snapshot) persistJob(snapshot());
+      }, JOB_SAVE_INTERVAL_MS);
+    };
+
     try {
-      // ✅ Pixiv 프리셋: 수동 번역(읽기모드 복사)에서도 적용
-      if (settings.pixivPresetEnabled) {
-        const r = applyPixivPreset(workingText, !!settings.pixivStripMeta);
+      if (resume) {
+        // ✅ 이어하기: 회차/부제목/제목은 처음 번역할 때 정한 값 그대로
+        nextEpisodeNo = resume.header.episodeNo;
+        nextEpisodeHeader = resume.header.episodeHeader;
+        nextSubtitle = resume.header.subtitle;
+        nextTranslatedSubtitle = resume.header.translatedSubtitle;
+        extractedEpisode = resume.header.extractedEpisode;
+        extractedSubtitle = resume.header.extractedSubtitle;
+        setEpisodeNo(nextEpisodeNo);
+        setEpisodeHeader(nextEpisodeHeader);
+        setSubtitle(nextSubtitle);
+        setTranslatedSubtitle(nextTranslatedSubtitle);
+      } else if (metaEpisodeNo != null || metaSubtitle) {
+        // ✅ 사이트 추출기가 준 실제 회차/제목이 있으면 휴리스틱 대신 사용
+        //    (본문에 회차/제목 줄이 따로 없으므로 프리셋 정리도 건너뜀)
+        nextEpisodeNo = metaEpisodeNo;
+        extractedEpisode = metaEpisodeNo != null;
+        nextEpisodeHeader = metaEpisodeNo != null ? episodeHeaderFor(metaEpisodeNo, languages.target) : "";
+        setEpisodeNo(nextEpisodeNo);
+        setEpisodeHeader(nextEpisodeHeader);
+
+        await applySubtitle(metaSubtitle);
+      } else if (settings.pixivPresetEnabled) {
+        // ✅ Pixiv 프리셋: 수동 번역(읽기모드 복사)에서도 적용
+        const r = applyPixivPreset(workingText, !!settings.pixivStripMeta, languages.target);
         if (r.cleanedText.trim()) workingText = r.cleanedText;
 
         if (typeof r.episodeNo === "number" && Number.isFinite(r.episodeNo)) {
@@ -1267,64 +2646,199 @@ setEpisodeHeader(nextEpisodeHeader);
   setEpisodeHeader("");
 }
 
-        if (typeof r.subtitle === "string" && r.subtitle.trim()) {
-          nextSubtitle = r.subtitle.trim();
-          extractedSubtitle = true;
-          setSubtitle(nextSubtitle);
-
-          // ✅ 부제목도 번역해서 표시용으로 저장
-          try {
-            const subKo = await translateChunk(nextSubtitle, controller.signal);
-            nextTranslatedSubtitle = subKo.trim();
-            setTranslatedSubtitle(nextTranslatedSubtitle);
-          } catch {
-            // 부제목 번역 실패해도 본문 번역은 진행
-            nextTranslatedSubtitle = nextSubtitle;
-            setTranslatedSubtitle(nextTranslatedSubtitle);
-          }
-        } else {
-          extractedSubtitle = false;
-          nextSubtitle = "";
-          nextTranslatedSubtitle = "";
-          setSubtitle("");
-          setTranslatedSubtitle("");
-        }
+        await applySubtitle(r.subtitle);
       } else {
         // 프리셋 OFF면 헤더 관련 값은 유지하지 않음
         setEpisodeNo(null);
         setSubtitle("");
         setTranslatedSubtitle("");
       }
-let translatedTitle = "";
 
-if (title.trim()) {
-  translatedTitle = await translateChunk(title, controller.signal);
-}
-      const chunks = chunkText(body, 4500);
+      // ✅ 원문에서 회차를 못 찾았으면 시리즈 순서(실제 메타)로만 보충 — 헤더는 만들지 않음
+      if (!resume && !extractedEpisode && typeof opts?.episodeNo === "number") {
+        nextEpisodeNo = opts.episodeNo;
+        extractedEpisode = true;
+        setEpisodeNo(nextEpisodeNo);
+      }
+
+      const nextShowHeader = resume ? resume.header.showHeader : !!nextEpisodeHeader.trim() || extractedSubtitle;
+      setShowHeader(nextShowHeader);
+
+      const title = opts?.title ?? "";
+      let translatedTitle = resume?.translatedTitle ?? "";
+
+      if (!resume && title.trim()) {
+        translatedTitle = (await translate(title, "제목")).translated;
+      }
+      // ✅ Pixiv 태그([newpage]/[chapter:]/루비 등)가 있으면 텍스트 부분만 번역하고 태그 골격은 유지
+      const pixivPlan = resume
+        ? resume.pixivPlan
+        : opts?.meta?.markup === "pixiv" || hasPixivMarkup(workingText)
+        ? buildPixivTranslationPlan(parsePixivMarkup(workingText), (t) => chunkText(t, 4500))
+        : null;
+
+      const chunks = resume ? resume.chunks : pixivPlan ? pixivPlan.units : chunkText(workingText, 4500);
       if (chunks.length > 80)
         throw new Error(`너무 길어서 자동 처리 부담이 큽니다. (분할 ${chunks.length}조각)`);
 
       setProgress({ current: 0, total: chunks.length });
 
-      let out = "";
-      for (let i = 0; i < chunks.length; i++) {
-        setProgress({ current: i, total: chunks.length });
-        const t = await translateChunk(chunks[i], controller.signal);
-        out += (out ? "\n\n" : "") + t.trim();
-      }
+      // 조각은 끝나는 순서가 뒤섞이므로 원문 순서 자리에 채움 (이어하기면 끝난 조각부터 채워 둠)
+      const translatedChunks: string[] = new Array(chunks.length);
+      const chunkProviders: TranslateProviderId[] = new Array(chunks.length);
+      resume?.translated.forEach((t, i) => {
+        if (t == null) return;
+        translatedChunks[i] = t;
+        chunkProviders[i] = resume.providers[i] || primary;
+      });
+      const partials: string[] = [];
+      let completed = translatedChunks.filter((t) => t !== undefined).length;
+
+      const jobOpts: TranslationJobOptions = {
+        mode,
+        sourceUrl: opts?.sourceUrl,
+        title: opts?.title,
+        seriesTitle: opts?.seriesTitle,
+        episodeNo: opts?.episodeNo,
+        folderId: opts?.folderId,
+        meta: opts?.meta,
+        images: opts?.images,
+      };
+      const snapshotJob = (): TranslationJob => ({
+        id: resume?.id ?? uid(),
+        key: jobKey,
+        createdAt: resume?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+        status: "running",
+        rawText,
+        opts: jobOpts,
+        languages,
+        header: {
+          episodeNo: nextEpisodeNo,
+          episodeHeader: nextEpisodeHeader,
+          subtitle: nextSubtitle,
+          translatedSubtitle: nextTranslatedSubtitle,
+          extractedEpisode,
+          extractedSubtitle,
+          showHeader: nextShowHeader,
+        },
+        translatedTitle,
+        pixivPlan,
+        chunks,
+        translated: Array.from(chunks, (_, i) => translatedChunks[i] ?? null),
+        providers: Array.from(chunks, (_, i) => chunkProviders[i] ?? null),
+        glossaryReports,
+        maskWarnings,
+      });
+      snapshot = snapshotJob;
+      persistJob(snapshotJob());
+
+      // 앞에서부터 연달아 끝난 조각 수 (그 다음 조각이 뷰어에서 “번역 중” 자리)
+      const doneInOrder = () => {
+        let n = 0;
+        while (n < chunks.length && translatedChunks[n] !== undefined) n++;
+        return n;
+      };
+
+      // ✅ 끝난 조각은 바로 뷰어에 (Pixiv 태그 골격은 다 끝난 뒤에 다시 씌움)
+      const showSoFar = () => {
+        const n = doneInOrder();
+        const soFar = translatedChunks.slice(0, n).map((t) => t.trim()).join("\n\n");
+        setResultBody(translatedTitle ? translatedTitle + "\n\n" + soFar : soFar);
+        setStreamingText(partials[n] || "");
+        setResultMemoryHits([...memoryHits]);
+      };
+      if (translatedTitle) showSoFar();
+
+      const reportProgress = () => {
+        setProgress({
+          current: completed,
+          total: chunks.length,
+          retries: retryCountRef.current,
+          fallbacks: fallbackCountRef.current,
+        });
+        opts?.onProgress?.(completed, chunks.length);
+      };
+      reportProgress();
+
+      // ✅ 첫 번째 엔진의 동시 처리 수만큼 나눠 보냄 (하나라도 실패하면 나머지도 취소)
+      //    - 진행 중인 요청은 모두 controller 하나로 같이 끊김
+      //    - 중지/실패 뒤에 늦게 도착한 결과는 뷰어/작업 기록에 쓰지 않고 버림
+      const todo = chunks.map((_, i) => i).filter((i) => translatedChunks[i] === undefined);
+      const concurrency = Math.min(todo.length, settings.translateConcurrency[primary] || 1);
+      let nextIndex = 0;
+      let failure: any = null;
+      const stopped = () => failure != null || controller.signal.aborted;
+
+      const worker = async () => {
+        while (nextIndex < todo.length && !stopped()) {
+          const i = todo[nextIndex++];
+          try {
+            const r = await translateWithMemory(chunks[i], `본문 ${i + 1}`, (partial) => {
+              if (stopped()) return;
+              partials[i] = partial;
+              if (doneInOrder() === i) setStreamingText(partial);
+            });
+            if (stopped()) break;
+            translatedChunks[i] = r.translated;
+            chunkProviders[i] = r.provider;
+            delete partials[i];
+            completed++;
+            if (settings.useTranslationMemory) persistMemory();
+            persistJobSoon();
+            showSoFar();
+            reportProgress();
+          } catch (e) {
+            if (!failure) failure = e;
+            controller.abort();
+          }
+        }
+      };
+
+      showSoFar();
+      await Promise.all(Array.from({ length: concurrency }, worker));
+      if (failure) throw failure;
+      // 메모리에서만 채우다 중지된 경우처럼 오류 없이 멈췄어도 취소로 처리
+      controller.signal.throwIfAborted();
+      setStreamingText("");
+
+      // 경고는 끝난 순서대로 쌓였으므로 제목/부제목 → 본문 번호순으로 정리
+      const warningRank = (w: MaskWarning) => (w.label.startsWith("본문 ") ? Number(w.label.slice(3)) : 0);
+      maskWarnings.sort((a, b) => warningRank(a) - warningRank(b));
+
+      const out = pixivPlan
+        ? assemblePixivTranslation(pixivPlan, translatedChunks)
+        : translatedChunks.map((t) => t.trim()).join("\n\n");
 
       const finalText = translatedTitle
   ? translatedTitle + "\n\n" + out
   : out;
 
 setResultBody(finalText);
-      setProgress({ current: chunks.length, total: chunks.length });
+      setResultProviders(chunkProviders);
+      const glossaryReport = glossaryEntries.length > 0 ? mergeGlossaryReports(glossaryReports) : undefined;
+      setResultGlossary(glossaryReport || null);
+      setResultMaskWarnings(maskWarnings);
+      setProgress({
+        current: chunks.length,
+        total: chunks.length,
+        retries: retryCountRef.current,
+        fallbacks: fallbackCountRef.current,
+      });
+      opts?.onProgress?.(chunks.length, chunks.length);
 
-      autoSaveToHistory({
+      // ✅ 시리즈 자동 분류: 저장 위치를 따로 받지 않은 경우에만
+      const seriesFolderName = (opts?.meta?.seriesTitle || opts?.meta?.workTitle || "").trim();
+      const saveFolderId =
+        opts?.folderId === undefined && settings.autoFileBySeries && seriesFolderName
+          ? ensureFolder(seriesFolderName, selectedFolderId)
+          : opts?.folderId;
+
+      const saved = autoSaveToHistory({
   sourceText: rawText.trim(),
   translatedBody: out,
   url: opts?.sourceUrl,
-  seriesTitle: seriesTitle.trim() || "",
+  seriesTitle: (opts?.seriesTitle ?? seriesTitle).trim() || "",
   episodeNo: extractedEpisode ? nextEpisodeNo : null,
 
   // ✅ 추가
@@ -1333,19 +2847,77 @@ setResultBody(finalText);
   subtitle: extractedSubtitle ? nextSubtitle : "",
   translatedSubtitle: extractedSubtitle ? nextTranslatedSubtitle : "",
   showHeader: !!nextShowHeader,
+  folderId: saveFolderId,
+  images: opts?.images,
+  sourceMeta: opts?.meta,
+  providers: chunkProviders,
+  languages,
+  glossary: glossaryReport,
+  maskWarnings,
 });
+      persistJob(null);
+      return { ok: true, item: saved };
     } catch (e: any) {
-      if (e?.name === "AbortError") setError("번역이 취소되었습니다.");
-      else setError(e?.message || "번역 오류");
+      // ✅ 끝난 조각은 버리지 않음: 작업으로 남겨 두고 “이어서 번역”으로 나머지만
+      // 마지막 저장 뒤에 끝난 조각까지 담아서 바로 저장
+      const failedJob: TranslationJob | null = snapshot
+        ? {
+            ...snapshot(),
+            updatedAt: Date.now(),
+            status: e?.name === "AbortError" ? "aborted" : "failed",
+            error: e?.name === "AbortError" ? undefined : describeError(e, "번역 오류"),
+          }
+        : null;
+      if (failedJob) {
+        persistJob(failedJob);
+        upsertPendingJob(failedJob);
+      }
+
+      if (e?.name === "AbortError") {
+        setError("번역이 취소되었습니다.");
+        return { ok: false, error: "번역이 취소되었습니다.", aborted: true };
+      }
+      showError(e, "번역 오류", () =>
+        void runTranslation(rawText, failedJob ? { ...opts, mode, resume: failedJob } : opts)
+      );
+      return { ok: false, error: describeError(e, "번역 오류") };
     } finally {
-      setIsLoading(false);
-      abortRef.current = null;
+      // 그 사이 새 번역이 시작됐으면 그쪽 controller 는 그대로 둠, 로딩 표시는 모든 번역이 끝났을 때만 끔
+      if (controllerRef.current === controller) controllerRef.current = null;
+      activeRunsRef.current--;
+      if (activeRunsRef.current === 0) {
+        setIsLoading(false);
+        setStreamingText("");
+      }
     }
   }
 
   /* =========================
      URL → 본문 불러오기
   ========================= */
+  async function requestExtract(u: string): Promise<any> {
+    const res = await fetch("/api/extract", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        url: u,
+        cookie: settings.pixivCookie?.trim() || "",
+      }),
+    });
+
+    const data: any = await safeReadJson(res);
+
+    if (!res.ok) throw apiErrorFromResponse(res, data, "본문 불러오기 실패");
+
+    if (data?.__notJson) {
+      throw new Error(
+        "본문을 JSON으로 받지 못했어요. Pixiv는 로그인/봇 차단 때문에 서버에서 본문 추출이 실패할 수 있어요.\n(다른 사이트로 테스트하거나, 텍스트 직접 붙여넣기로 확인해줘)"
+      );
+    }
+
+    return data;
+  }
+
   async function fetchFromUrl() {
     const u = url.trim();
     if (!u) return;
@@ -1354,31 +2926,20 @@ setResultBody(finalText);
     setError("");
 
     try {
-      const res = await fetch("/api/extract", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          url: u,
-          cookie: settings.pixivCookie?.trim() || "",
-        }),
-      });
-
-      const data: any = await safeReadJson(res);
+      const data = await requestExtract(u);
 
-      if (!res.ok) {
-        const msg = data?.error || data?.message || "본문 불러오기 실패";
-        throw new Error(String(msg));
-      }
-
-      if (data?.__notJson) {
-        throw new Error(
-          "본문을 JSON으로 받지 못했어요. Pixiv는 로그인/봇 차단 때문에 서버에서 본문 추출이 실패할 수 있어요.\n(다른 사이트로 테스트하거나, 텍스트 직접 붙여넣기로 확인해줘)"
-        );
+      // ✅ Pixiv 시리즈 URL이면 회차 목록 → 대기열
+      if (data?.kind === "series") {
+        startSeriesQueue(data);
+        return;
       }
 
       // title은 사이트 메타일 수 있어서, 자동으로 “헤더”에 쓰지 않음.
       // 필요하면 seriesTitle에만 반영(표시 여부는 별도).
-      if (data?.title) setSeriesTitle(String(data.title));
+      // ✅ 사이트 추출기가 작품 제목을 따로 주면 그걸 우선
+      const meta: ExtractMeta | undefined = data?.meta;
+      const workTitle = String(meta?.workTitle || data?.title || "").trim();
+      if (workTitle) setSeriesTitle(workTitle);
 
       const text = String(data?.text ?? "");
       if (!text.trim()) {
@@ -1388,14 +2949,392 @@ setResultBody(finalText);
       }
 
       setSource(text);
-      await runTranslation(text, { mode: "url", sourceUrl: u });
+      await startTranslation(text, {
+        mode: "url",
+        sourceUrl: u,
+        seriesTitle: workTitle || undefined,
+        meta,
+        images: data?.images,
+      });
+    } catch (e: any) {
+      showError(e, "본문 불러오기 실패", () => void fetchFromUrl());
+    } finally {
+      setIsFetchingUrl(false);
+    }
+  }
+
+  /* =========================
+     시리즈 대기열
+  ========================= */
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [queueRunning, setQueueRunning] = useState(false);
+  const [queuePausing, setQueuePausing] = useState(false);
+  const queueStopRef = useRef(false);
+  // 처리 중에도 항목 추가/재시도가 바로 반영되도록 루프는 ref 를 읽음
+  const queueRef = useRef<QueueItem[]>([]);
+  const queueRunningRef = useRef(false);
+
+  function commitQueue(next: QueueItem[]) {
+    queueRef.current = next;
+    setQueue(next);
+  }
+
+  function updateQueueItem(id: string, patch: Partial<QueueItem>) {
+    commitQueue(queueRef.current.map((q) => (q.id === id ? { ...q, ...patch } : q)));
+  }
+
+  // 같은 부모 아래 같은 이름 폴더가 있으면 재사용, 없으면 새로 만든다
+  function ensureFolder(name: string, parentId: string | null): string | null {
+    const trimmed = name.trim();
+    if (!trimmed) return parentId;
+
+    const current = foldersRef.current;
+    const existing = current.find((f) => f.parentId === parentId && f.name === trimmed);
+    if (existing) return existing.id;
+
+    const f: HistoryFolder = {
+      id: uid(),
+      createdAt: Date.now(),
+      name: trimmed,
+      parentId,
+    };
+    persistFolders([...current, f].sort((a, b) => a.createdAt - b.createdAt));
+    return f.id;
+  }
+
+  function startSeriesQueue(data: any) {
+    if (queueRunning) {
+      alert("이미 대기열을 처리하는 중이에요. 끝나거나 중단한 뒤 다시 시도해줘.");
+      return;
+    }
+
+    const seriesName = String(data?.title ?? "").trim();
+    const episodes: any[] = Array.isArray(data?.episodes) ? data.episodes : [];
+    const available = episodes.filter((ep) => ep?.available !== false);
+    const skipped = episodes.length - available.length;
+
+    if (available.length === 0) {
+      setError("이 시리즈에는 불러올 수 있는 회차가 없어요.");
+      return;
+    }
+
+    const ok = confirm(
+      `시리즈 "${seriesName || "제목 없음"}"의 ${available.length}개 회차를 순서대로 불러와 번역할까요?` +
+        (skipped > 0 ? `\n(열람 불가 회차 ${skipped}개는 건너뜀)` : "") +
+        `\n결과는 "${seriesName || folderNameById(selectedFolderId)}" 폴더에 저장돼요.`
+    );
+    if (!ok) return;
+
+    const folderId = ensureFolder(seriesName, selectedFolderId);
+    if (seriesName) setSeriesTitle(seriesName);
+
+    const items: QueueItem[] = available.map((ep) => ({
+      id: uid(),
+      url: String(ep.url),
+      title: String(ep.title ?? ""),
+      episodeNo: typeof ep.episodeIndex === "number" ? ep.episodeIndex : null,
+      seriesTitle: seriesName,
+      folderId,
+      status: "waiting",
+    }));
+
+    commitQueue(items);
+    void processQueue();
+  }
+
+  /* =========================
+     URL 목록 일괄 번역 → 현재 폴더에 저장
+  ========================= */
+  const [batchUrls, setBatchUrls] = useState("");
+
+  function parseUrlList(raw: string) {
+    const seen = new Set<string>();
+    const out: string[] = [];
+    for (const line of raw.split(/[\s,]+/)) {
+      const u = line.trim();
+      if (!/^https?:\/\//i.test(u) || seen.has(u)) continue;
+      seen.add(u);
+      out.push(u);
+    }
+    return out;
+  }
+
+  function enqueueUrlList() {
+    const urls = parseUrlList(batchUrls);
+    if (urls.length === 0) {
+      setError("http:// 또는 https:// 로 시작하는 URL을 한 줄에 하나씩 넣어줘.");
+      return;
+    }
+
+    // 이미 대기 중인 URL 은 다시 넣지 않음
+    const queued = new Set(queueRef.current.filter((q) => q.status !== "done").map((q) => q.url));
+    const items: QueueItem[] = urls
+      .filter((u) => !queued.has(u))
+      .map((u) => ({
+        id: uid(),
+        url: u,
+        title: "",
+        episodeNo: null,
+        seriesTitle: "",
+        folderId: selectedFolderId,
+        status: "waiting",
+      }));
+
+    setError("");
+    setBatchUrls("");
+    if (items.length === 0) return;
+
+    // 끝난 대기열은 비우고 새로 시작, 처리 중이면 뒤에 이어 붙임
+    const keep = queueRunningRef.current ? queueRef.current : queueRef.current.filter((q) => q.status !== "done");
+    commitQueue([...keep, ...items]);
+    void processQueue();
+  }
+
+  /* =========================
+     파일 가져오기 (.txt / .html / .epub)
+  ========================= */
+  const [isImporting, setIsImporting] = useState(false);
+  const [fileDragOver, setFileDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  async function importFromFile(file: File) {
+    if (queueRunning) {
+      alert("대기열을 처리하는 중이에요. 끝나거나 중단한 뒤 다시 시도해줘.");
+      return;
+    }
+
+    setIsImporting(true);
+    setError("");
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+
+      const res = await fetch("/api/import", { method: "POST", body: form });
+      const data: any = await safeReadJson(res);
+      if (!res.ok) throw apiErrorFromResponse(res, data, "파일 불러오기 실패");
+
+      // ✅ EPUB: 챕터별로 대기열
+      if (data?.kind === "book") {
+        startBookQueue(data);
+        return;
+      }
+
+      const meta: ExtractMeta | undefined = data?.meta;
+      const workTitle = String(meta?.workTitle || data?.title || "").trim();
+      if (workTitle) setSeriesTitle(workTitle);
+
+      const text = String(data?.text ?? "");
+      if (!text.trim()) throw new Error("파일에서 본문을 찾지 못했어요.");
+
+      setSource(text);
+      await startTranslation(text, {
+        mode: "manual",
+        seriesTitle: workTitle || undefined,
+        meta,
+      });
     } catch (e: any) {
-      setError(e?.message || "본문 불러오기 실패");
+      showError(e, "파일 불러오기 실패");
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  function startBookQueue(data: any) {
+    const bookTitle = String(data?.title ?? "").trim();
+    const chapters: any[] = Array.isArray(data?.chapters) ? data.chapters : [];
+    if (chapters.length === 0) {
+      setError("파일에 번역할 챕터가 없어요.");
+      return;
+    }
+
+    const ok = confirm(
+      `"${bookTitle || "제목 없음"}"의 ${chapters.length}개 챕터를 순서대로 번역할까요?` +
+        `\n결과는 "${bookTitle || folderNameById(selectedFolderId)}" 폴더에 저장돼요.`
+    );
+    if (!ok) return;
+
+    const folderId = ensureFolder(bookTitle, selectedFolderId);
+    if (bookTitle) setSeriesTitle(bookTitle);
+
+    const items: QueueItem[] = chapters.map((ch, i) => ({
+      id: uid(),
+      url: "",
+      title: String(ch?.title ?? ""),
+      episodeNo: i + 1,
+      seriesTitle: bookTitle,
+      folderId,
+      status: "waiting",
+      text: String(ch?.text ?? ""),
+      // 챕터 제목을 부제목으로 쓰도록 회차 메타를 채워 넘김
+      meta: { ...(data?.meta || {}), episodeNo: i + 1, episodeTitle: String(ch?.title ?? "") },
+    }));
+
+    commitQueue(items);
+    void processQueue();
+  }
+
+  // 대기 중인 항목을 앞에서부터 하나씩 처리 (이미 돌고 있으면 그 루프가 새 항목도 집어감)
+  async function processQueue() {
+    if (queueRunningRef.current) return;
+    queueRunningRef.current = true;
+    queueStopRef.current = false;
+    setQueueRunning(true);
+    setQueuePausing(false);
+
+    try {
+      for (;;) {
+        if (queueStopRef.current) break;
+        const it = queueRef.current.find((q) => q.status === "waiting");
+        if (!it) break;
+
+        // 실패/중단으로 남은 작업이 있으면 다시 추출하지 않고 남은 조각부터
+        let saved: TranslationJob | null = null;
+        try {
+          saved = loadTranslationJob(queueJobKey(it.id));
+        } catch {}
+        const onProgress = (current: number, total: number) =>
+          updateQueueItem(it.id, { progress: { current, total } });
+
+        updateQueueItem(it.id, {
+          status: it.text != null || saved ? "translating" : "extracting",
+          error: undefined,
+          progress: undefined,
+        });
+
+        try {
+          const r = saved ? await resumeQueueItem(saved, onProgress) : await extractAndTranslate(it, onProgress);
+
+          if (r.ok) updateQueueItem(it.id, { status: "done" });
+          else if (r.aborted) {
+            // 중단한 항목은 재개하면 남은 조각부터 (작업이 대기열 항목 키로 남아 있음)
+            updateQueueItem(it.id, { status: "waiting", progress: undefined });
+            break;
+          } else updateQueueItem(it.id, { status: "failed", error: r.error });
+        } catch (e: any) {
+          updateQueueItem(it.id, { status: "failed", error: describeError(e, "불러오기 실패") });
+        }
+      }
+    } finally {
+      queueRunningRef.current = false;
+      setQueueRunning(false);
+      setQueuePausing(false);
+    }
+  }
+
+  function resumeQueueItem(job: TranslationJob, onProgress: (current: number, total: number) => void) {
+    setSource(job.rawText);
+    return runTranslation(job.rawText, { ...job.opts, onProgress, resume: job, controllerRef: queueAbortRef });
+  }
+
+  async function extractAndTranslate(it: QueueItem, onProgress: (current: number, total: number) => void) {
+    const data = it.text != null ? { text: it.text, meta: it.meta } : await requestExtract(it.url);
+    const text = String(data?.text ?? "");
+    if (!text.trim()) throw new Error("본문이 비어 있어요.");
+
+    const meta: ExtractMeta | undefined = data?.meta;
+    // URL 목록으로 넣은 항목은 제목을 모르니 추출 결과로 채움
+    if (!it.title) updateQueueItem(it.id, { title: String(meta?.episodeTitle || data?.title || "") });
+    updateQueueItem(it.id, { status: "translating" });
+
+    setSource(text);
+    return runTranslation(text, {
+      mode: it.text != null ? "manual" : "url",
+      sourceUrl: it.url || undefined,
+      seriesTitle: it.seriesTitle || String(meta?.workTitle || "").trim() || undefined,
+      episodeNo: it.episodeNo,
+      folderId: it.folderId,
+      meta,
+      images: data?.images,
+      onProgress,
+      jobKey: queueJobKey(it.id),
+      controllerRef: queueAbortRef,
+    });
+  }
+
+  function retryFailedQueue(id?: string) {
+    commitQueue(
+      queueRef.current.map((q) =>
+        q.status === "failed" && (!id || q.id === id)
+          ? { ...q, status: "waiting" as const, error: undefined, progress: undefined }
+          : q
+      )
+    );
+    void processQueue();
+  }
+
+  /* =========================
+     다음 화 번역 (현재 항목의 nextUrl → 같은 폴더에 저장)
+  ========================= */
+  async function translateNextEpisode() {
+    const cur = currentIndex >= 0 ? history[currentIndex] : null;
+    const nextUrl = cur?.nextUrl;
+    if (!cur || !nextUrl || isLoading || isFetchingUrl || queueRunning) return;
+
+    // 이미 번역해 둔 회차면 다시 번역하지 않고 불러오기
+    const existing = history.find((h) => h.url === nextUrl);
+    if (existing && !confirm("다음 화는 이미 번역해 둔 기록이 있어요.\n다시 번역할까요? (취소하면 기존 기록을 열어요)")) {
+      loadHistoryItem(existing);
+      return;
+    }
+
+    setUrl(nextUrl);
+    setIsFetchingUrl(true);
+    setError("");
+
+    try {
+      const data = await requestExtract(nextUrl);
+      if (data?.kind === "series") throw new Error("다음 화 주소가 회차가 아니라 목차로 연결돼 있어요.");
+
+      const meta: ExtractMeta | undefined = data?.meta;
+      const workTitle = String(meta?.workTitle || cur.seriesTitle || data?.title || "").trim();
+      if (workTitle) setSeriesTitle(workTitle);
+
+      const text = String(data?.text ?? "");
+      if (!text.trim()) throw new Error("다음 화 본문이 비어 있어요.");
+
+      setSource(text);
+      await startTranslation(text, {
+        mode: "url",
+        sourceUrl: nextUrl,
+        seriesTitle: workTitle || undefined,
+        folderId: cur.folderId ?? null,
+        meta,
+        images: data?.images,
+      });
+    } catch (e: any) {
+      showError(e, "다음 화 불러오기 실패", () => void translateNextEpisode());
     } finally {
       setIsFetchingUrl(false);
     }
   }
 
+  // 일시정지: 지금 항목까지 끝내고 멈춤 / 중단: 지금 번역도 취소
+  function pauseQueue() {
+    queueStopRef.current = true;
+    setQueuePausing(true);
+  }
+
+  function stopQueue() {
+    queueStopRef.current = true;
+    queueAbortRef.current?.abort();
+  }
+
+  // 대기열에 남아 있는 항목의 작업은 목록에서 빼고 대기열 쪽에서 이어함 (새로고침하면 대기열이 비므로 다시 보임)
+  const visiblePendingJobs = pendingJobs.filter((j) => !queue.some((q) => queueJobKey(q.id) === j.key));
+
+  const queueDone = queue.filter((q) => q.status === "done" || q.status === "failed").length;
+  const queueFailed = queue.filter((q) => q.status === "failed").length;
+  const queueWaiting = queue.filter((q) => q.status === "waiting").length;
+
+  function queueStatusLabel(q: QueueItem) {
+    if (q.status === "waiting") return "대기";
+    if (q.status === "extracting") return "추출 중";
+    if (q.status === "translating") return q.progress ? `번역 ${q.progress.current}/${q.progress.total}` : "번역 중";
+    if (q.status === "done") return "완료";
+    return "실패";
+  }
+
   /* =========================
      + 메뉴 앵커 계산 (모달 잘림 방지)
   ========================= */
@@ -1433,6 +3372,17 @@ setResultBody(finalText);
     fontSize: 15,
   };
 
+  // ✅ 대기열 카드 버튼
+  const queueButtonStyle: React.CSSProperties = {
+    height: 32,
+    padding: "0 12px",
+    borderRadius: 10,
+    border: "1px solid rgba(0,0,0,0.18)",
+    cursor: "pointer",
+    fontWeight: 900,
+    background: "#fff",
+  };
+
   return (
     <div
       style={{
@@ -1601,39 +3551,316 @@ setResultBody(finalText);
           </div>
         </div>
 
-        {/* ✅ URL 입력 (카드 1겹 + input 무테/무배경) */}
-        <div style={{ ...cardShellStyle, marginBottom: 12 }}>
-          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
-            <input
-              value={url}
-              onChange={(e) => setUrl(e.target.value)}
-              placeholder="URL 붙여넣기"
-              style={{
-                ...innerInputBase,
-                flex: 1,
-                padding: "10px 10px",
-              }}
-            />
+        {/* ✅ URL 입력 (카드 1겹 + input 무테/무배경) · 파일을 끌어다 놓아도 됨 */}
+        <div
+          style={{
+            ...cardShellStyle,
+            marginBottom: 12,
+            outline: fileDragOver ? "2px dashed rgba(0,0,0,0.45)" : "none",
+            outlineOffset: 2,
+          }}
+          onDragOver={(e) => {
+            if (!Array.from(e.dataTransfer.types).includes("Files")) return;
+            e.preventDefault();
+            setFileDragOver(true);
+          }}
+          onDragLeave={() => setFileDragOver(false)}
+          onDrop={(e) => {
+            const file = e.dataTransfer.files?.[0];
+            if (!file) return;
+            e.preventDefault();
+            setFileDragOver(false);
+            void importFromFile(file);
+          }}
+        >
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="URL 붙여넣기"
+              style={{
+                ...innerInputBase,
+                flex: 1,
+                padding: "10px 10px",
+              }}
+            />
+
+            <button
+              onClick={fetchFromUrl}
+              disabled={isFetchingUrl || queueRunning || !url.trim()}
+              style={{
+                height: 40,
+                padding: "0 12px",
+                borderRadius: 10,
+                border: "1px solid rgba(0,0,0,0.18)",
+                cursor: isFetchingUrl || queueRunning || !url.trim() ? "not-allowed" : "pointer",
+                fontWeight: 900,
+                background: "#fff",
+                opacity: isFetchingUrl || queueRunning || !url.trim() ? 0.6 : 1,
+                whiteSpace: "nowrap",
+              }}
+            >
+              {isFetchingUrl ? "불러오는 중…" : "본문 불러오기"}
+            </button>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.html,.htm,.xhtml,.epub,text/plain,text/html,application/epub+zip"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void importFromFile(file);
+              }}
+            />
+
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting || queueRunning}
+              style={{
+                height: 40,
+                padding: "0 12px",
+                borderRadius: 10,
+                border: "1px solid rgba(0,0,0,0.18)",
+                cursor: isImporting || queueRunning ? "not-allowed" : "pointer",
+                fontWeight: 900,
+                background: "#fff",
+                opacity: isImporting || queueRunning ? 0.6 : 1,
+                whiteSpace: "nowrap",
+              }}
+              title=".txt / .html / .epub 파일 (여기로 끌어다 놓아도 돼요)"
+            >
+              {isImporting ? "읽는 중…" : "파일"}
+            </button>
+          </div>
+
+          {urlSite && (
+            <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6, paddingLeft: 10 }}>
+              {urlSite.site
+                ? `✓ 지원 사이트: ${urlSite.site.label} (전용 추출)`
+                : `일반 추출: ${urlSite.host} (메뉴/광고가 섞일 수 있어요)`}
+            </div>
+          )}
+        </div>
+
+        {/* ✅ 번역 언어 (시리즈/폴더 기본값 저장) */}
+        <div
+          style={{
+            display: "flex",
+            gap: 8,
+            alignItems: "center",
+            flexWrap: "wrap",
+            fontSize: 13,
+            marginBottom: 12,
+          }}
+        >
+          <b style={{ opacity: 0.85 }}>언어</b>
+          <select
+            value={currentLang.languages.source}
+            onChange={(e) => setLangOverride({ ...currentLang.languages, source: e.target.value })}
+            style={{ height: 30, borderRadius: 8, padding: "0 6px" }}
+          >
+            {SOURCE_LANGUAGES.map((l) => (
+              <option key={l.code} value={l.code}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+          →
+          <select
+            value={currentLang.languages.target}
+            onChange={(e) => setLangOverride({ ...currentLang.languages, target: e.target.value })}
+            style={{ height: 30, borderRadius: 8, padding: "0 6px" }}
+          >
+            {TARGET_LANGUAGES.map((l) => (
+              <option key={l.code} value={l.code}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+          <span style={{ opacity: 0.6 }}>({currentLang.from})</span>
+
+          {seriesTitle.trim() && (
+            <button
+              onClick={() => {
+                setSeriesDefaultLanguages(seriesTitle, currentLang.languages);
+                setLangOverride(null);
+              }}
+              style={{ height: 28, padding: "0 8px", borderRadius: 8, cursor: "pointer" }}
+              title={`“${seriesTitle.trim()}” 번역할 때 항상 이 언어로`}
+            >
+              이 시리즈 기본값
+            </button>
+          )}
+          {selectedFolderId && (
+            <button
+              onClick={() => {
+                setFolderDefaultLanguages(selectedFolderId, currentLang.languages);
+                setLangOverride(null);
+              }}
+              style={{ height: 28, padding: "0 8px", borderRadius: 8, cursor: "pointer" }}
+              title={`“${folderNameById(selectedFolderId)}” 폴더(하위 포함)에서 항상 이 언어로`}
+            >
+              이 폴더 기본값
+            </button>
+          )}
+          {currentLang.from === "시리즈" && (
+            <button
+              onClick={() => setSeriesDefaultLanguages(seriesTitle, null)}
+              style={{ height: 28, padding: "0 8px", borderRadius: 8, cursor: "pointer" }}
+            >
+              시리즈 기본값 해제
+            </button>
+          )}
+          {currentLang.from.startsWith("폴더") && selectedFolderId && (
+            <button
+              onClick={() => setFolderDefaultLanguages(selectedFolderId, null)}
+              style={{ height: 28, padding: "0 8px", borderRadius: 8, cursor: "pointer" }}
+            >
+              폴더 기본값 해제
+            </button>
+          )}
+        </div>
+
+        {/* ✅ URL 여러 개 → 대기열 */}
+        <details style={{ marginBottom: 12 }}>
+          <summary style={{ cursor: "pointer", fontWeight: 900, opacity: 0.85 }}>URL 목록 일괄 번역</summary>
+
+          <div style={{ marginTop: 10, ...cardShellStyle }}>
+            <textarea
+              value={batchUrls}
+              onChange={(e) => setBatchUrls(e.target.value)}
+              placeholder={"한 줄에 URL 하나씩\nhttps://...\nhttps://..."}
+              style={{
+                ...innerInputBase,
+                height: 120,
+                overflowY: "auto",
+                resize: "vertical",
+                padding: 10,
+                whiteSpace: "pre",
+              }}
+            />
+
+            <div style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 10 }}>
+              <button
+                onClick={enqueueUrlList}
+                disabled={!batchUrls.trim()}
+                style={{
+                  height: 40,
+                  padding: "0 12px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(0,0,0,0.18)",
+                  cursor: !batchUrls.trim() ? "not-allowed" : "pointer",
+                  fontWeight: 900,
+                  background: "#fff",
+                  opacity: !batchUrls.trim() ? 0.6 : 1,
+                }}
+              >
+                대기열에 추가 ({parseUrlList(batchUrls).length})
+              </button>
+              <span style={{ fontSize: 12, opacity: 0.7 }}>
+                순서대로 불러와 번역하고 “{folderNameById(selectedFolderId)}”에 저장해요.
+              </span>
+            </div>
+          </div>
+        </details>
+
+        {/* ✅ 대기열 상태 */}
+        {queue.length > 0 && (
+          <div style={{ ...cardShellStyle, marginBottom: 12, fontSize: 13 }}>
+            <div style={{ display: "flex", gap: 10, alignItems: "center", justifyContent: "space-between" }}>
+              <div style={{ fontWeight: 900 }}>
+                대기열 {queueDone}/{queue.length}
+                {queueFailed > 0 ? ` · 실패 ${queueFailed}` : ""}
+                {queuePausing ? " · 지금 항목까지 하고 멈춰요" : !queueRunning ? (queueWaiting > 0 ? " · 일시정지됨" : " · 종료됨") : ""}
+              </div>
+
+              <div style={{ display: "flex", gap: 6 }}>
+                {queueRunning ? (
+                  <>
+                    <button onClick={pauseQueue} disabled={queuePausing} style={queueButtonStyle}>
+                      일시정지
+                    </button>
+                    <button onClick={stopQueue} style={queueButtonStyle}>
+                      중단
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {queueWaiting > 0 && (
+                      <button
+                        onClick={() => void processQueue()}
+                        disabled={isLoading || isFetchingUrl}
+                        style={queueButtonStyle}
+                      >
+                        재개
+                      </button>
+                    )}
+                    {queueFailed > 0 && (
+                      <button
+                        onClick={() => retryFailedQueue()}
+                        disabled={isLoading || isFetchingUrl}
+                        style={queueButtonStyle}
+                      >
+                        실패 다시 시도
+                      </button>
+                    )}
+                    <button onClick={() => commitQueue([])} style={queueButtonStyle}>
+                      닫기
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div style={{ marginTop: 8, maxHeight: 220, overflowY: "auto" }}>
+              {queue.map((q) => (
+                <div
+                  key={q.id}
+                  style={{
+                    display: "flex",
+                    gap: 8,
+                    alignItems: "baseline",
+                    padding: "4px 0",
+                    borderTop: "1px solid rgba(0,0,0,0.06)",
+                  }}
+                >
+                  <span
+                    style={{
+                      flex: "0 0 auto",
+                      minWidth: 74,
+                      fontWeight: 800,
+                      color: q.status === "failed" ? "#c00" : q.status === "done" ? "#2a7" : undefined,
+                      opacity: q.status === "waiting" ? 0.55 : 1,
+                    }}
+                  >
+                    {queueStatusLabel(q)}
+                  </span>
 
-            <button
-              onClick={fetchFromUrl}
-              disabled={isFetchingUrl || !url.trim()}
-              style={{
-                height: 40,
-                padding: "0 12px",
-                borderRadius: 10,
-                border: "1px solid rgba(0,0,0,0.18)",
-                cursor: isFetchingUrl || !url.trim() ? "not-allowed" : "pointer",
-                fontWeight: 900,
-                background: "#fff",
-                opacity: isFetchingUrl || !url.trim() ? 0.6 : 1,
-                whiteSpace: "nowrap",
-              }}
-            >
-              {isFetchingUrl ? "불러오는 중…" : "본문 불러오기"}
-            </button>
+                  <span
+                    style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}
+                    title={q.error || q.url}
+                  >
+                    {q.episodeNo != null ? `${q.episodeNo}화 · ` : ""}
+                    {q.title || q.url}
+                  </span>
+
+                  {q.status === "failed" && !queueRunning && (
+                    <button
+                      onClick={() => retryFailedQueue(q.id)}
+                      disabled={isLoading || isFetchingUrl}
+                      style={{ ...queueButtonStyle, height: 24, padding: "0 8px", fontSize: 12 }}
+                      title={q.error}
+                    >
+                      다시
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* 텍스트 직접 번역 */}
         <details
@@ -1648,6 +3875,7 @@ setResultBody(finalText);
           {/* ✅ 직접 번역 카드 1겹 */}
           <div style={{ marginTop: 10, ...cardShellStyle }}>
             <textarea
+              ref={manualInputRef}
               value={source}
               onChange={(e) => setSource(e.target.value)}
               placeholder="원문을 직접 붙여넣기"
@@ -1663,7 +3891,7 @@ setResultBody(finalText);
 
             <div style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 10 }}>
               <button
-                onClick={() => runTranslation(source, { mode: "manual" })}
+                onClick={() => startTranslation(source, { mode: "manual" })}
                 disabled={isLoading || !source.trim()}
                 style={{
                   height: 40,
@@ -1699,6 +3927,8 @@ setResultBody(finalText);
               {progress && (
                 <span style={{ fontSize: 13, opacity: 0.75 }}>
                   진행 {percent}% ({progress.current}/{progress.total})
+                  {progress.retries ? ` · 재시도 ${progress.retries}회` : ""}
+                  {progress.fallbacks ? ` · 다른 엔진으로 ${progress.fallbacks}조각` : ""}
                 </span>
               )}
             </div>
@@ -1716,12 +3946,123 @@ setResultBody(finalText);
         {error && (
           <div style={{ color: "#c00", marginTop: 8, fontWeight: 700, whiteSpace: "pre-wrap" }}>
             {error}
+
+            {/* ✅ 오류 코드별 복구 버튼 */}
+            {errorInfo && (
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+                {(errorInfo.code ? API_ERROR_GUIDE[errorInfo.code]?.actions ?? [] : ["retry" as ErrorAction])
+                  .filter((a) => a !== "retry" || !!errorInfo.retry)
+                  .map((a) => (
+                    <button
+                      key={a}
+                      onClick={() => {
+                        if (a === "cookie") openSettings();
+                        else if (a === "paste") openManualPaste();
+                        else errorInfo.retry?.();
+                      }}
+                      disabled={a === "retry" && (isLoading || isFetchingUrl || queueRunning)}
+                      style={{
+                        height: 32,
+                        padding: "0 10px",
+                        borderRadius: 8,
+                        border: "1px solid rgba(204,0,0,0.35)",
+                        background: "transparent",
+                        color: "#c00",
+                        cursor: "pointer",
+                        fontWeight: 800,
+                      }}
+                    >
+                      {a === "cookie" ? "쿠키 설정 열기" : a === "paste" ? "직접 붙여넣기" : "다시 시도"}
+                    </button>
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {jobSaveFailed && (
+          <div style={{ marginTop: 12, fontSize: 13, color: "#b45309" }}>
+            ⚠ 브라우저 저장 공간이 부족해서 이어하기 작업을 저장하지 못했어요. 중간에 끊기면 처음부터 다시 번역해야 해요.
+            (끝나지 않은 번역을 정리하면 다시 저장돼요)
+          </div>
+        )}
+
+        {/* ✅ 끝나지 않은 번역 (실패/취소/새로고침) — 대기열에 있는 항목은 대기열 “재시도”로 이어함 */}
+        {!isLoading && visiblePendingJobs.length > 0 && (
+          <div
+            style={{
+              marginTop: 12,
+              padding: 12,
+              borderRadius: 12,
+              border: "1px solid rgba(0,0,0,0.18)",
+              background: "rgba(255,255,255,0.6)",
+              fontSize: 13,
+              display: "grid",
+              gap: 12,
+            }}
+          >
+            {visiblePendingJobs.map((job) => (
+              <div key={job.key}>
+                <div style={{ fontWeight: 800 }}>
+                  ⏸ 끝나지 않은 번역:{" "}
+                  {job.opts.title || job.header.subtitle || job.opts.seriesTitle || job.opts.sourceUrl || "직접 붙여넣은 원문"}
+                </div>
+                <div style={{ opacity: 0.75, marginTop: 4 }}>
+                  {job.translated.filter((t) => t != null).length}/{job.chunks.length}조각 완료 ·{" "}
+                  {job.status === "failed" ? "오류로 멈춤" : job.status === "aborted" ? "취소됨" : "중간에 끊김"}
+                  {job.error ? ` (${job.error.split("\n")[0]})` : ""}
+                </div>
+                <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                  <button
+                    onClick={() => resumePendingJob(job)}
+                    style={{ height: 32, padding: "0 12px", borderRadius: 8, cursor: "pointer", fontWeight: 800 }}
+                  >
+                    이어서 번역
+                  </button>
+                  <button
+                    onClick={() => discardPendingJob(job)}
+                    style={{ height: 32, padding: "0 12px", borderRadius: 8, cursor: "pointer" }}
+                  >
+                    버리기
+                  </button>
+                </div>
+              </div>
+            ))}
           </div>
         )}
 
         {/* 결과 Viewer */}
         <div style={{ marginTop: 14 }}>
-          <div style={{ fontWeight: 900, opacity: 0.85, marginBottom: 8 }}>번역 결과</div>
+          <div style={{ fontWeight: 900, opacity: 0.85, marginBottom: 8 }}>
+            번역 결과
+            {resultProviders.length > 0 && (
+              <span style={{ fontWeight: 600, fontSize: 12, opacity: 0.75, marginLeft: 8 }}>
+                {summarizeProviders(resultProviders)}
+              </span>
+            )}
+            {resultMemoryHits.length > 0 && (
+              <span style={{ fontWeight: 600, fontSize: 12, opacity: 0.75, marginLeft: 8 }}>
+                · 번역 메모리 {resultMemoryHits.length}문단 (파란 배경)
+              </span>
+            )}
+          </div>
+
+          {resultGlossary && resultGlossary.hits.length > 0 && (
+            <div style={{ fontSize: 12, opacity: 0.8, marginBottom: 8, lineHeight: 1.5 }}>
+              용어집 적용: {resultGlossary.hits.map((h) => `${h.source} → ${h.target} ×${h.count}`).join(" · ")}
+            </div>
+          )}
+
+          {resultMaskWarnings.length > 0 && (
+            <div style={{ fontSize: 12, color: "#c00", marginBottom: 8, lineHeight: 1.5 }}>
+              ⚠️ 번역 엔진이 표식을 지운 조각이 있어요. 아래 부분은 결과에서 빠졌거나 번역됐을 수 있으니 확인해줘.
+              {resultMaskWarnings.map((w, i) => (
+                <div key={i}>
+                  · {w.label}: {w.missing.map((m) => (m.length > 40 ? m.slice(0, 40) + "…" : m)).join(" · ")}
+                </div>
+              ))}
+            </div>
+          )}
 
           <div
             style={{
@@ -1737,7 +4078,7 @@ setResultBody(finalText);
               fontFamily: settings.fontFamily,
             }}
           >
-            {!resultBody.trim() ? (
+            {!resultBody.trim() && !streamingText ? (
               <div style={{ opacity: 0.55 }}>번역 결과가 여기에 표시됩니다.</div>
             ) : (
               <>
@@ -1758,7 +4099,28 @@ setResultBody(finalText);
                     )}
                   </>
                 )}
-                <div>{resultBody}</div>
+                {hasPixivMarkup(resultBody) ? (
+                  <PixivMarkupView text={resultBody} images={resultImages} memoryHits={memoryHitSet} />
+                ) : (
+                  <div>
+                    <MemoryMarked text={resultBody} hits={memoryHitSet} render={(part) => part} />
+                  </div>
+                )}
+
+                {/* ✅ 번역 중인 조각 (LLM 은 토큰 단위로 늘어남) */}
+                {isLoading && (streamingText || progress) && (
+                  <div
+                    style={{
+                      marginTop: resultBody.trim() ? "1em" : 0,
+                      paddingLeft: 10,
+                      borderLeft: "3px solid rgba(0,0,0,0.25)",
+                      opacity: 0.6,
+                    }}
+                  >
+                    {streamingText}
+                    <span style={{ opacity: 0.7 }}>{streamingText ? " ▍" : "번역 중…"}</span>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -1809,6 +4171,11 @@ setResultBody(finalText);
                   <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
                     변경 후 <b>저장</b>을 눌러야 유지돼. {settingsDirty ? "· 변경됨" : "· 저장됨"}
                   </div>
+                  {pixivCheck.state === "expired" && (
+                    <div style={{ fontSize: 12, color: "#c0392b", fontWeight: 800, marginTop: 4 }}>
+                      ⚠️ Pixiv 쿠키가 만료된 것 같아요. 아래 <b>Pixiv 쿠키</b>에서 새로 붙여넣어줘.
+                    </div>
+                  )}
                 </div>
 
                 <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
@@ -1861,6 +4228,251 @@ setResultBody(finalText);
                 </div>
               </div>
 
+              {/* ✅ 번역 엔진 */}
+              <details style={{ marginTop: 10 }}>
+                <summary style={{ cursor: "pointer", fontWeight: 900 }}>번역 엔진</summary>
+
+                <div style={{ marginTop: 10 }}>
+                  <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 8 }}>
+                    체크한 엔진을 위에서부터 시도하고, 실패하면 다음 엔진으로 넘어가.
+                    {draftSettings.translateProviders.length === 0 ? " (지금은 서버 기본 순서)" : ""}
+                  </div>
+
+                  {providerRows.map(({ id, enabled, index }) => {
+                    const info = providerInfo.find((p) => p.id === id);
+                    return (
+                      <div key={id} style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 6 }}>
+                        <label style={{ display: "flex", gap: 8, alignItems: "center", fontWeight: 800, flex: 1 }}>
+                          <input
+                            type="checkbox"
+                            checked={enabled}
+                            onChange={(e) => toggleDraftProvider(id, e.target.checked)}
+                            style={{ width: 18, height: 18 }}
+                          />
+                          {enabled ? `${index + 1}. ` : ""}
+                          {TRANSLATE_PROVIDER_LABELS[id]}
+                          {info && !info.configured && (
+                            <span style={{ fontSize: 12, fontWeight: 600, color: "#c00" }}>서버 설정 없음</span>
+                          )}
+                        </label>
+
+                        <label style={{ display: "flex", gap: 4, alignItems: "center", fontSize: 12 }}>
+                          동시
+                          <input
+                            type="number"
+                            min={1}
+                            max={MAX_CONCURRENCY}
+                            value={draftSettings.translateConcurrency[id]}
+                            onChange={(e) =>
+                              updateDraft({
+                                translateConcurrency: {
+                                  ...draftSettings.translateConcurrency,
+                                  [id]: clampConcurrency(e.target.value, DEFAULT_CONCURRENCY[id]),
+                                },
+                              })
+                            }
+                            style={{ width: 44, height: 28, borderRadius: 8, padding: "0 4px" }}
+                          />
+                        </label>
+
+                        {enabled && (
+                          <>
+                            <button
+                              onClick={() => moveDraftProvider(id, -1)}
+                              disabled={index === 0}
+                              style={{ width: 30, height: 28, borderRadius: 8, cursor: "pointer" }}
+                              aria-label="위로"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => moveDraftProvider(id, 1)}
+                              disabled={index === draftProviderOrder.length - 1}
+                              style={{ width: 30, height: 28, borderRadius: 8, cursor: "pointer" }}
+                              aria-label="아래로"
+                            >
+                              ↓
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {draftSettings.translateProviders.length > 0 && (
+                    <button
+                      onClick={() => updateDraft({ translateProviders: [] })}
+                      style={{ marginTop: 4, height: 30, padding: "0 10px", borderRadius: 8, cursor: "pointer" }}
+                    >
+                      서버 기본 순서로
+                    </button>
+                  )}
+
+                  <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>
+                    Google Cloud는 <b>GOOGLE_TRANSLATE_API_KEY</b>, LLM은 <b>LLM_BASE_URL / LLM_MODEL / LLM_API_KEY</b>{" "}
+                    서버 설정을 써. LLM은 로컬 llama.cpp·Ollama 서버도 가능하고 회차 표식(#1, 第1話)·고정 치환 규칙을
+                    지켜서 번역해. 무료 Google은 키가 필요 없지만 자주 막혀서 마지막 순서를 권장해.
+                    “동시”는 첫 번째 엔진 기준으로 한 번에 보내는 조각 수야. (로컬 LLM은 1 권장)
+                  </div>
+
+                  <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 10 }}>
+                    <label style={{ display: "flex", gap: 8, alignItems: "center", fontWeight: 800, flex: 1 }}>
+                      <input
+                        type="checkbox"
+                        checked={draftSettings.useTranslationMemory}
+                        onChange={(e) => updateDraft({ useTranslationMemory: e.target.checked })}
+                        style={{ width: 18, height: 18 }}
+                      />
+                      번역 메모리 사용
+                      <span style={{ fontSize: 12, fontWeight: 600, opacity: 0.7 }}>{memorySize}문단 저장됨</span>
+                    </label>
+                    <button
+                      onClick={clearTranslationMemory}
+                      disabled={memorySize === 0}
+                      style={{ height: 30, padding: "0 10px", borderRadius: 8, cursor: "pointer" }}
+                    >
+                      비우기
+                    </button>
+                  </div>
+                  <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+                    원문을 조금 고쳐서 다시 번역할 때 바뀌지 않은 문단은 전에 받은 번역을 바로 써. 엔진·언어·용어집이
+                    같을 때만 써.
+                  </div>
+
+                  <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 10, fontWeight: 800 }}>
+                    기본 언어
+                    <select
+                      value={draftSettings.defaultLanguages.source}
+                      onChange={(e) =>
+                        updateDraft({ defaultLanguages: { ...draftSettings.defaultLanguages, source: e.target.value } })
+                      }
+                      style={{ height: 30, borderRadius: 8, padding: "0 6px" }}
+                    >
+                      {SOURCE_LANGUAGES.map((l) => (
+                        <option key={l.code} value={l.code}>
+                          {l.label}
+                        </option>
+                      ))}
+                    </select>
+                    →
+                    <select
+                      value={draftSettings.defaultLanguages.target}
+                      onChange={(e) =>
+                        updateDraft({ defaultLanguages: { ...draftSettings.defaultLanguages, target: e.target.value } })
+                      }
+                      style={{ height: 30, borderRadius: 8, padding: "0 6px" }}
+                    >
+                      {TARGET_LANGUAGES.map((l) => (
+                        <option key={l.code} value={l.code}>
+                          {l.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+                    시리즈/폴더 기본값이 없을 때 써. 시리즈·폴더별 언어는 메인 화면의 “언어” 줄에서 저장해.
+                  </div>
+                </div>
+              </details>
+
+              {/* ✅ 용어집 */}
+              <details style={{ marginTop: 10 }}>
+                <summary style={{ cursor: "pointer", fontWeight: 900 }}>용어집</summary>
+
+                <div style={{ marginTop: 10 }}>
+                  <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 8 }}>
+                    어떤 엔진을 쓰든 원문 용어를 지정한 번역어로 고정해. 시리즈 → 폴더 → 전체 순으로 우선하고, 바로
+                    저장돼.
+                  </div>
+
+                  <div style={{ display: "flex", gap: 6, marginBottom: 8, flexWrap: "wrap" }}>
+                    {(["global", "folder", "series"] as GlossaryScope[]).map((scope) => {
+                      const label =
+                        scope === "global"
+                          ? "전체"
+                          : scope === "folder"
+                          ? `폴더: ${selectedFolderId ? folderNameById(selectedFolderId) : "(폴더 선택 안 됨)"}`
+                          : `시리즈: ${seriesTitle.trim() || "(시리즈 제목 없음)"}`;
+                      return (
+                        <button
+                          key={scope}
+                          onClick={() => setGlossaryScope(scope)}
+                          style={{
+                            height: 30,
+                            padding: "0 10px",
+                            borderRadius: 8,
+                            cursor: "pointer",
+                            fontWeight: glossaryScope === scope ? 900 : 600,
+                            border: glossaryScope === scope ? "2px solid #111" : "1px solid rgba(0,0,0,0.25)",
+                            background: "#fff",
+                          }}
+                        >
+                          {label}
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  {glossary
+                    .filter((e) => e.scope === glossaryScope && e.scopeKey === glossaryScopeKey(glossaryScope))
+                    .map((e) => {
+                      const problem = glossaryEntryError(e);
+                      return (
+                        <div key={e.id} style={{ marginBottom: 8 }}>
+                          <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+                            <input
+                              value={e.source}
+                              onChange={(ev) => updateGlossaryEntry(e.id, { source: ev.target.value })}
+                              placeholder="원문 용어"
+                              style={{ flex: 1, minWidth: 100, height: 30, padding: "0 8px", borderRadius: 8 }}
+                            />
+                            →
+                            <input
+                              value={e.target}
+                              onChange={(ev) => updateGlossaryEntry(e.id, { target: ev.target.value })}
+                              placeholder="번역어"
+                              style={{ flex: 1, minWidth: 100, height: 30, padding: "0 8px", borderRadius: 8 }}
+                            />
+                            <button
+                              onClick={() => removeGlossaryEntry(e.id)}
+                              style={{ height: 30, padding: "0 10px", borderRadius: 8, cursor: "pointer" }}
+                            >
+                              삭제
+                            </button>
+                          </div>
+                          <div style={{ display: "flex", gap: 12, fontSize: 12, marginTop: 4 }}>
+                            <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                              <input
+                                type="checkbox"
+                                checked={!!e.caseSensitive}
+                                onChange={(ev) => updateGlossaryEntry(e.id, { caseSensitive: ev.target.checked })}
+                              />
+                              대소문자 구분
+                            </label>
+                            <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                              <input
+                                type="checkbox"
+                                checked={!!e.regex}
+                                onChange={(ev) => updateGlossaryEntry(e.id, { regex: ev.target.checked })}
+                              />
+                              정규식 ($1 등 사용 가능)
+                            </label>
+                          </div>
+                          {problem && <div style={{ fontSize: 12, color: "#c00", marginTop: 2 }}>{problem} (적용 안 됨)</div>}
+                        </div>
+                      );
+                    })}
+
+                  <button
+                    onClick={addGlossaryEntry}
+                    disabled={glossaryScope !== "global" && !glossaryScopeKey(glossaryScope)}
+                    style={{ height: 30, padding: "0 10px", borderRadius: 8, cursor: "pointer" }}
+                  >
+                    + 용어 추가
+                  </button>
+                </div>
+              </details>
+
               {/* ✅ 프리셋 */}
               <details style={{ marginTop: 10 }}>
                 <summary style={{ cursor: "pointer", fontWeight: 900 }}>프리셋</summary>
@@ -1899,6 +4511,23 @@ setResultBody(finalText);
                   <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>
                     (권장) 읽기모드로 복사하면 상단에 날짜/시간이 붙는 경우가 많아서, 이 옵션이 있으면 더 깔끔해져.
                   </div>
+
+                  <div style={{ height: 10 }} />
+
+                  <label style={{ display: "flex", gap: 10, alignItems: "center", fontWeight: 900 }}>
+                    <input
+                      type="checkbox"
+                      checked={draftSettings.autoFileBySeries}
+                      onChange={(e) => updateDraft({ autoFileBySeries: e.target.checked })}
+                      style={{ width: 18, height: 18 }}
+                    />
+                    시리즈 회차는 시리즈 폴더에 자동 저장
+                  </label>
+
+                  <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>
+                    URL로 불러온 회차가 시리즈(작품)에 속해 있으면, 현재 폴더 아래 <b>시리즈 이름 폴더</b>를 만들어(있으면
+                    재사용) 거기에 저장해.
+                  </div>
                 </div>
               </details>
 
@@ -2177,7 +4806,30 @@ setResultBody(finalText);
 
                   <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
                     <button
-                      onClick={() => updateDraft({ pixivCookie: "" })}
+                      onClick={() => checkPixivCookieStatus(draftSettings.pixivCookie)}
+                      disabled={!draftSettings.pixivCookie.trim() || pixivCheck.state === "checking"}
+                      style={{
+                        height: 36,
+                        padding: "0 12px",
+                        borderRadius: 10,
+                        border: "1px solid rgba(0,0,0,0.18)",
+                        cursor:
+                          !draftSettings.pixivCookie.trim() || pixivCheck.state === "checking"
+                            ? "not-allowed"
+                            : "pointer",
+                        fontWeight: 900,
+                        background: "#fff",
+                        opacity: !draftSettings.pixivCookie.trim() ? 0.5 : 1,
+                      }}
+                    >
+                      {pixivCheck.state === "checking" ? "확인 중…" : "로그인 확인"}
+                    </button>
+
+                    <button
+                      onClick={() => {
+                        updateDraft({ pixivCookie: "" });
+                        setPixivCheck({ state: "idle" });
+                      }}
                       style={{
                         height: 36,
                         padding: "0 12px",
@@ -2191,6 +4843,29 @@ setResultBody(finalText);
                       비우기
                     </button>
                   </div>
+
+                  {/* 로그인 상태 */}
+                  {pixivCheck.state === "ok" && (
+                    <div style={{ fontSize: 12, marginTop: 10 }}>
+                      ✅ 로그인됨: <b>{pixivCheck.userName || "(이름 없음)"}</b>
+                      {pixivCheck.userId ? ` (id ${pixivCheck.userId})` : ""} ·{" "}
+                      {(pixivCheck.xRestrict || 0) > 0
+                        ? `R-18${pixivCheck.xRestrict === 2 ? "/R-18G" : ""} 표시 켜짐`
+                        : "R-18 표시 꺼짐 (R-18 작품은 본문을 못 불러와요. Pixiv 설정에서 켜줘)"}
+                    </div>
+                  )}
+                  {pixivCheck.state === "expired" && (
+                    <div style={{ fontSize: 12, marginTop: 10, color: "#c0392b", fontWeight: 800 }}>
+                      ⚠️ 로그인되지 않은 쿠키예요. 만료됐거나 로그아웃된 것 같아요.
+                      <br />
+                      Pixiv에 다시 로그인한 뒤 쿠키를 새로 복사해서 붙여넣어줘.
+                    </div>
+                  )}
+                  {pixivCheck.state === "error" && (
+                    <div style={{ fontSize: 12, marginTop: 10, color: "#c0392b", whiteSpace: "pre-wrap" }}>
+                      {pixivCheck.error}
+                    </div>
+                  )}
                 </div>
               </details>
             </div>
@@ -2378,15 +5053,80 @@ setResultBody(finalText);
                 </div>
               )}
 
+              {/* 필터: 검색어(제목/작가/태그/캡션) · 태그 · 연령 */}
+              <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+                <input
+                  value={historyQuery}
+                  onChange={(e) => {
+                    setHistoryQuery(e.target.value);
+                    setHistoryPage(1);
+                  }}
+                  placeholder="제목·작가·태그·캡션 검색"
+                  style={{
+                    flex: "1 1 200px",
+                    height: 34,
+                    padding: "0 12px",
+                    borderRadius: 10,
+                    border: "1px solid rgba(0,0,0,0.18)",
+                  }}
+                />
+
+                <select
+                  value={historyRating}
+                  onChange={(e) => {
+                    setHistoryRating(e.target.value as "all" | "general" | "r18");
+                    setHistoryPage(1);
+                  }}
+                  style={{
+                    height: 34,
+                    borderRadius: 10,
+                    border: "1px solid rgba(0,0,0,0.18)",
+                    padding: "0 8px",
+                    fontWeight: 800,
+                  }}
+                >
+                  <option value="all">연령: 전체</option>
+                  <option value="general">전체 연령만</option>
+                  <option value="r18">R-18만</option>
+                </select>
+
+                {historyTag && (
+                  <button
+                    onClick={() => {
+                      setHistoryTag(null);
+                      setHistoryPage(1);
+                    }}
+                    style={{
+                      height: 34,
+                      padding: "0 12px",
+                      borderRadius: 999,
+                      border: "1px solid rgba(0,0,0,0.18)",
+                      background: "#111",
+                      color: "#fff",
+                      cursor: "pointer",
+                      fontWeight: 900,
+                    }}
+                    title="태그 필터 해제"
+                  >
+                    #{historyTag} ✕
+                  </button>
+                )}
+              </div>
+
               {/* 리스트 */}
               {filteredHistory.length === 0 ? (
-                <div style={{ opacity: 0.65, padding: 10 }}>(이 폴더에 저장된 항목이 없어요)</div>
+                <div style={{ opacity: 0.65, padding: 10 }}>
+                  {historyQuery.trim() || historyTag || historyRating !== "all"
+                    ? "(조건에 맞는 항목이 없어요)"
+                    : "(이 폴더에 저장된 항목이 없어요)"}
+                </div>
               ) : (
                 <>
                   <div style={{ display: "grid", gap: 10, paddingBottom: 62 }}>
                     {pagedHistory.map((it) => {
                       const label = it.episodeNo != null ? `${it.episodeNo}화` : "회차 없음";
                       const checked = !!selectedIds[it.id];
+                      const meta = it.sourceMeta;
 
                       return (
                         <div
@@ -2439,7 +5179,77 @@ setResultBody(finalText);
                             <div style={{ fontSize: 12, opacity: 0.65, marginTop: 4 }}>
                               {formatDate(it.createdAt)}
                               {it.url ? ` · URL 저장됨` : ""}
+                              {it.languages &&
+                              (it.languages.source !== DEFAULT_LANGUAGES.source ||
+                                it.languages.target !== DEFAULT_LANGUAGES.target)
+                                ? ` · ${languageLabel(it.languages.source)}→${languageLabel(it.languages.target)}`
+                                : ""}
                             </div>
+
+                            {meta && (meta.author || meta.seriesTitle || meta.characterCount != null) && (
+                              <div style={{ fontSize: 12, opacity: 0.75, marginTop: 4 }}>
+                                {(meta.xRestrict || 0) > 0 && (
+                                  <b style={{ color: "#c0392b", marginRight: 6 }}>
+                                    {meta.xRestrict === 2 ? "R-18G" : "R-18"}
+                                  </b>
+                                )}
+                                {[
+                                  meta.author ? `작가 ${meta.author}` : "",
+                                  meta.seriesTitle
+                                    ? `${meta.seriesTitle}${meta.seriesOrder != null ? ` #${meta.seriesOrder}` : ""}`
+                                    : "",
+                                  meta.characterCount != null
+                                    ? `${meta.characterCount.toLocaleString()}자`
+                                    : "",
+                                  meta.createDate ? `게시 ${meta.createDate.slice(0, 10)}` : "",
+                                ]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </div>
+                            )}
+
+                            {meta?.caption && (
+                              <div
+                                style={{
+                                  fontSize: 12,
+                                  opacity: 0.6,
+                                  marginTop: 4,
+                                  overflow: "hidden",
+                                  textOverflow: "ellipsis",
+                                  whiteSpace: "nowrap",
+                                }}
+                                title={meta.caption}
+                              >
+                                {meta.caption}
+                              </div>
+                            )}
+
+                            {!!meta?.tags?.length && (
+                              <div style={{ display: "flex", gap: 4, flexWrap: "wrap", marginTop: 6 }}>
+                                {meta.tags.slice(0, 12).map((tag) => (
+                                  <span
+                                    key={tag}
+                                    role="button"
+                                    onClick={(e) => {
+                                      // 항목 불러오기 대신 태그 필터
+                                      e.stopPropagation();
+                                      setHistoryTag(tag);
+                                      setHistoryPage(1);
+                                    }}
+                                    style={{
+                                      fontSize: 11,
+                                      padding: "2px 8px",
+                                      borderRadius: 999,
+                                      background: historyTag === tag ? "#111" : "#f2f2f2",
+                                      color: historyTag === tag ? "#fff" : "#333",
+                                      cursor: "pointer",
+                                    }}
+                                  >
+                                    #{tag}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </button>
 
                           <button
@@ -2781,7 +5591,7 @@ setResultBody(finalText);
           </div>
         )}
 
-        {/* Bottom Nav: 이전/복사/다음 */}
+        {/* Bottom Nav: 이전/복사/다음 화 번역/다음 */}
         <div
           style={{
             position: "fixed",
@@ -2838,6 +5648,27 @@ setResultBody(finalText);
               📋 복사
             </button>
 
+            {nextEpisodeUrl && (
+              <button
+                onClick={translateNextEpisode}
+                disabled={isLoading || isFetchingUrl || queueRunning}
+                style={{
+                  height: 40,
+                  padding: "0 14px",
+                  borderRadius: 12,
+                  border: "1px solid rgba(0,0,0,0.18)",
+                  background: "#111",
+                  color: "#fff",
+                  fontWeight: 900,
+                  cursor: isLoading || isFetchingUrl || queueRunning ? "not-allowed" : "pointer",
+                  opacity: isLoading || isFetchingUrl || queueRunning ? 0.5 : 1,
+                }}
+                title={nextEpisodeUrl}
+              >
+                다음 화 번역 ⏭
+              </button>
+            )}
+
             <button
               onClick={goNext}
               disabled={!canNext}
@@ -0,0 +1,129 @@
+// lib/encoding.ts
+// 일본어 구형 사이트/텍스트 파일용 문자 인코딩 판별 + 디코딩 (서버 전용)
+//
+// 판별 순서: BOM → Content-Type 헤더 → <meta charset> → 바이트 추측
+// 헤더/메타가 틀리게 적힌 사이트도 많아서, 선언된 값으로 깨지면 추측값으로 다시 시도함
+
+export type DetectedEncoding = "utf-8" | "shift_jis" | "euc-jp" | "iso-2022-jp" | "utf-16le" | "utf-16be";
+
+export type DecodeResult = {
+  text: string;
+  encoding: DetectedEncoding;
+  // 어디서 알아냈는지 (디버그/응답 표시용)
+  source: "bom" | "header" | "meta" | "sniff";
+};
+
+/** -------------------------
+ *  이름 정규화
+ *  ------------------------- */
+export function normalizeCharset(name: string): DetectedEncoding | null {
+  const n = (name || "").trim().toLowerCase().replace(/^["']|["']$/g, "");
+  if (!n) return null;
+
+  if (n === "utf-8" || n === "utf8") return "utf-8";
+  if (["shift_jis", "shift-jis", "sjis", "x-sjis", "windows-31j", "cp932", "ms932", "ms_kanji"].includes(n))
+    return "shift_jis";
+  if (["euc-jp", "x-euc-jp", "eucjp", "cseucpkdfmtjapanese"].includes(n)) return "euc-jp";
+  if (n === "iso-2022-jp" || n === "csiso2022jp" || n === "jis") return "iso-2022-jp";
+  if (n === "utf-16le" || n === "utf-16") return "utf-16le";
+  if (n === "utf-16be") return "utf-16be";
+  return null;
+}
+
+export function charsetFromContentType(contentType: string) {
+  const m = (contentType || "").match(/charset\s*=\s*["']?([\w.:-]+)/i);
+  return m ? normalizeCharset(m[1]) : null;
+}
+
+// <meta charset="…"> / <meta http-equiv="Content-Type" content="…; charset=…">
+// 앞부분만 ASCII로 훑으면 충분 (메타는 <head> 초반에 있음)
+export function charsetFromHtmlMeta(bytes: Uint8Array) {
+  const head = Buffer.from(bytes.subarray(0, 4096)).toString("latin1");
+  const m =
+    head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i) ||
+    head.match(/<\?xml[^>]+encoding\s*=\s*["']([\w.:-]+)/i);
+  return m ? normalizeCharset(m[1]) : null;
+}
+
+function charsetFromBom(bytes: Uint8Array): DetectedEncoding | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  return null;
+}
+
+/** -------------------------
+ *  바이트 추측
+ *  ------------------------- */
+function tryDecode(bytes: Uint8Array, encoding: DetectedEncoding) {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// 가나 비율: 잘못 디코딩하면 한자/기호 덩어리가 되고 히라가나가 거의 안 나옴
+function kanaScore(text: string) {
+  const kana = text.match(/[\u3040-\u30ff]/g)?.length || 0;
+  // 반각 가나/사용자 정의 영역은 오판 신호
+  const odd = text.match(/[\uff61-\uff9f\ue000-\uf8ff]/g)?.length || 0;
+  return kana - odd * 2;
+}
+
+export function sniffEncoding(bytes: Uint8Array): DetectedEncoding {
+  // ISO-2022-JP: ESC $ B / ESC $ @ / ESC ( J
+  for (let i = 0; i < bytes.length - 2; i++) {
+    if (bytes[i] !== 0x1b) continue;
+    const [a, b] = [bytes[i + 1], bytes[i + 2]];
+    if ((a === 0x24 && (b === 0x42 || b === 0x40)) || (a === 0x28 && b === 0x4a)) return "iso-2022-jp";
+  }
+
+  if (tryDecode(bytes, "utf-8") != null) return "utf-8";
+
+  const sjis = tryDecode(bytes, "shift_jis");
+  const euc = tryDecode(bytes, "euc-jp");
+  if (sjis != null && euc == null) return "shift_jis";
+  if (euc != null && sjis == null) return "euc-jp";
+  if (sjis != null && euc != null) return kanaScore(euc) > kanaScore(sjis) ? "euc-jp" : "shift_jis";
+
+  // 둘 다 깨지면(일부 바이트 손상) 덜 깨지는 쪽
+  const lossy = (e: DetectedEncoding) => (new TextDecoder(e).decode(bytes).match(/\ufffd/g) || []).length;
+  return lossy("euc-jp") < lossy("shift_jis") ? "euc-jp" : "shift_jis";
+}
+
+/** -------------------------
+ *  디코딩
+ *  ------------------------- */
+export function decodeBytes(
+  input: ArrayBuffer | Uint8Array,
+  opts: { contentType?: string; html?: boolean } = {}
+): DecodeResult {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+
+  const bom = charsetFromBom(bytes);
+  if (bom) {
+    // TextDecoder 가 BOM 은 알아서 떼어냄
+    return { text: new TextDecoder(bom).decode(bytes), encoding: bom, source: "bom" };
+  }
+
+  const declared: Array<{ encoding: DetectedEncoding | null; source: DecodeResult["source"] }> = [
+    { encoding: charsetFromContentType(opts.contentType || ""), source: "header" },
+    { encoding: opts.html ? charsetFromHtmlMeta(bytes) : null, source: "meta" },
+  ];
+
+  for (const d of declared) {
+    if (!d.encoding) continue;
+    const text = tryDecode(bytes, d.encoding);
+    if (text != null) return { text, encoding: d.encoding, source: d.source };
+  }
+
+  const encoding = sniffEncoding(bytes);
+  const sniffed = tryDecode(bytes, encoding);
+  if (sniffed != null) return { text: sniffed, encoding, source: "sniff" };
+
+  // 추측으로도 깨끗하게 안 풀리면(일부 바이트 손상) 선언된 값을 믿고 깨진 글자만 감수
+  const fallback = declared.find((d) => d.encoding);
+  const enc = fallback?.encoding || encoding;
+  return { text: new TextDecoder(enc).decode(bytes), encoding: enc, source: fallback?.source || "sniff" };
+}
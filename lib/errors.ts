@@ -0,0 +1,101 @@
+// lib/errors.ts
+// API 라우트 ↔ 클라이언트 공용 오류 규약
+// - 모든 라우트는 실패 시 { error, code, debug? } 를 돌려주고, code 는 아래 목록 중 하나
+// - 클라이언트는 code 로 설명/복구 버튼을 고름 (error 문자열은 사람이 읽는 용도)
+// ※ 브라우저에서도 import 하므로 node 전용 모듈은 쓰지 말 것
+
+export type ApiErrorCode =
+  /* ---------- 요청 ---------- */
+  | "BAD_REQUEST" // 요청 본문이 JSON 이 아니거나 필수 값이 빠짐
+  | "URL_MISSING" // url 이 비어 있음
+  | "URL_INVALID" // URL 형식이 아님
+  | "FILE_MISSING" // 업로드 파일 없음
+  | "FILE_TOO_LARGE" // 업로드 상한 초과
+  | "FILE_UNSUPPORTED" // .txt / .html / .epub 이 아님
+  | "EPUB_INVALID" // zip/OPF 를 읽지 못함
+
+  /* ---------- 외부 페이지 가져오기 (safeFetch / httpFetch) ---------- */
+  | "URL_NOT_ALLOWED" // 내부망/로컬 주소, http(s) 이외
+  | "TOO_MANY_REDIRECTS"
+  | "RESPONSE_TOO_LARGE"
+  | "FETCH_TIMEOUT" // 재시도까지 모두 시간 초과
+  | "FETCH_FAILED" // 사이트가 4xx/5xx 응답
+  | "EXTRACT_EMPTY" // 페이지는 받았지만 본문을 못 찾음
+
+  /* ---------- Pixiv ---------- */
+  | "PIXIV_COOKIE_REQUIRED" // 쿠키 없음 (R-18/비공개 작품, 로그인 확인)
+  | "PIXIV_META_FETCH_FAILED" // 작품 정보 요청 실패 (권한 없음/삭제됨/쿠키 만료)
+  | "PIXIV_PAGES_FETCH_FAILED"
+  | "PIXIV_RETURNED_NON_JSON_META" // 로그인 페이지/봇 차단 HTML 이 돌아옴
+  | "PIXIV_RETURNED_NON_JSON_PAGES"
+  | "PIXIV_EXTRACT_EMPTY"
+  | "PIXIV_SERIES_FETCH_FAILED"
+  | "PIXIV_SERIES_EMPTY"
+  | "PIXIV_STATUS_FETCH_FAILED"
+  | "PIXIV_IMAGE_NOT_ALLOWED" // 이미지 프록시: i.pximg.net 이외 주소
+  | "PIXIV_IMAGE_FETCH_FAILED"
+
+  /* ---------- 번역 ---------- */
+  | "TRANSLATE_NOT_CONFIGURED" // API 키 등 서버 설정 없음
+  | "TRANSLATE_RATE_LIMITED" // 재시도 후에도 429
+  | "TRANSLATE_FAILED" // 번역 API 가 그 밖의 오류 응답
+
+  /* ---------- 그 밖 ---------- */
+  | "INTERNAL_ERROR";
+
+export type ApiErrorBody = {
+  error: string;
+  code: ApiErrorCode;
+  // 원인 파악용 원문 일부 (HTML 앞부분 등)
+  debug?: string;
+  retries?: number;
+};
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+  debug?: string;
+
+  constructor(code: ApiErrorCode, status: number, message: string, debug?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = status;
+    this.debug = debug;
+  }
+}
+
+export function apiErrorBody(code: ApiErrorCode, error: string, debug?: string): ApiErrorBody {
+  return debug ? { error, code, debug } : { error, code };
+}
+
+/** -------------------------
+ *  서버: catch 한 예외 → 응답
+ *  - code/status 가 붙은 오류(ApiError, SafeFetchError)는 그대로
+ *  - 나머지는 INTERNAL_ERROR
+ *  ------------------------- */
+export function toApiError(e: any): { status: number; body: ApiErrorBody } {
+  if (e instanceof Error && typeof (e as any).code === "string" && typeof (e as any).status === "number") {
+    return {
+      status: (e as any).status,
+      body: apiErrorBody((e as any).code, e.message, (e as any).debug),
+    };
+  }
+
+  // req.json() 실패
+  if (e instanceof SyntaxError) {
+    return { status: 400, body: apiErrorBody("BAD_REQUEST", "요청 형식이 올바르지 않아요.") };
+  }
+
+  return { status: 500, body: apiErrorBody("INTERNAL_ERROR", e?.message || "알 수 없는 오류") };
+}
+
+/** -------------------------
+ *  클라이언트: 실패 응답 → ApiError
+ *  ------------------------- */
+export function apiErrorFromResponse(res: Response, data: any, fallback: string) {
+  // 라우트 밖에서 난 오류(Next 기본 500 페이지 등)는 code 가 없음
+  const code: ApiErrorCode = typeof data?.code === "string" ? data.code : "INTERNAL_ERROR";
+  const message = String(data?.error || data?.message || `${fallback} (${res.status})`);
+  return new ApiError(code, res.status, message, data?.debug);
+}
@@ -0,0 +1,174 @@
+// lib/extractors/common.ts
+import { JSDOM, VirtualConsole } from "jsdom";
+import type { ExtractResult } from "./types";
+import type { ApiErrorCode } from "../errors";
+import { decodeBytes } from "../encoding";
+import { httpFetch } from "../http";
+
+/** -------------------------
+ *  Helpers
+ *  ------------------------- */
+export function buildCommonHeaders() {
+  return {
+    "user-agent":
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121 Safari/537.36",
+    "accept-language": "ko-KR,ko;q=0.9,en;q=0.8",
+  } as Record<string, string>;
+}
+
+export function normalizeText(s: string) {
+  return (s || "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// HTML 페이지 가져오기: res.text()는 UTF-8로만 읽어서 Shift_JIS/EUC-JP 사이트가 깨짐 → 직접 판별해서 디코딩
+// 사용자가 넣은 URL이라 내부망 주소/과대 응답은 safeFetch 에서 막힘 (SafeFetchError)
+// 429/5xx/시간 초과는 httpFetch 가 백오프하며 다시 시도
+export async function fetchHtml(url: string, init?: RequestInit) {
+  const res = await httpFetch(url, init, { safe: true });
+  const contentType = res.headers.get("content-type") || "";
+  const decoded = decodeBytes(await res.arrayBuffer(), { contentType, html: true });
+  return { res, html: decoded.text, contentType, encoding: decoded.encoding };
+}
+
+export async function safeReadJsonWithMeta(res: Response) {
+  const contentType = res.headers.get("content-type") || "";
+  const raw = await res.text();
+
+  if (!raw.trim()) {
+    return {
+      okJson: false,
+      data: null,
+      meta: { contentType, raw: "", notJson: true },
+    };
+  }
+
+  try {
+    const data = JSON.parse(raw);
+    return { okJson: true, data, meta: { contentType, raw: "", notJson: false } };
+  } catch {
+    return {
+      okJson: false,
+      data: null,
+      meta: {
+        contentType,
+        raw: raw.slice(0, 1200), // 디버그용 미리보기
+        notJson: true,
+      },
+    };
+  }
+}
+
+export function extractTitleFromHtml(html: string) {
+  const m = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  return (m?.[1] || "").replace(/\s+/g, " ").trim();
+}
+
+// 아주 단순한 텍스트 추출(스크립트/스타일 제거 + 태그 제거)
+export function extractTextFromHtml(html: string) {
+  let s = html;
+
+  s = s.replace(/<script[\s\S]*?<\/script>/gi, " ");
+  s = s.replace(/<style[\s\S]*?<\/style>/gi, " ");
+  s = s.replace(/<noscript[\s\S]*?<\/noscript>/gi, " ");
+
+  // 태그 제거
+  s = s.replace(/<br\s*\/?>/gi, "\n");
+  s = s.replace(/<\/p>/gi, "\n\n");
+  s = s.replace(/<\/div>/gi, "\n");
+  s = s.replace(/<[^>]+>/g, " ");
+
+  // HTML 엔티티 일부만 최소 치환
+  s = s
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+
+  return normalizeText(s);
+}
+
+export function extractFailure(
+  status: number,
+  code: ApiErrorCode,
+  error: string,
+  debug?: string
+): ExtractResult {
+  return { ok: false, status, body: { error, code, debug } };
+}
+
+/** -------------------------
+ *  DOM → 텍스트 (Readability 결과 / 사이트 추출기 공용)
+ *  ------------------------- */
+const BLOCK_TAGS = new Set([
+  "P", "DIV", "SECTION", "ARTICLE", "MAIN", "HEADER", "FOOTER", "ASIDE",
+  "H1", "H2", "H3", "H4", "H5", "H6",
+  "UL", "OL", "LI", "BLOCKQUOTE", "PRE", "TABLE", "TR", "HR",
+]);
+
+// innerText 비슷하게: 블록 경계는 줄바꿈, <p>는 빈 줄, 루비 읽기(rt/rp)는 제외
+export function domToText(root: Node, opts?: { paragraphBreak?: string }) {
+  const paragraphBreak = opts?.paragraphBreak ?? "\n\n";
+  let out = "";
+
+  const walk = (n: Node) => {
+    if (n.nodeType === 3) {
+      // 원문 HTML 들여쓰기용 공백/개행만 접음 (전각 공백 \u3000 은 유지)
+      out += (n.nodeValue || "").replace(/[ \t\r\n]+/g, " ");
+      return;
+    }
+    if (n.nodeType !== 1) return;
+
+    const tag = (n as Element).tagName;
+    if (tag === "SCRIPT" || tag === "STYLE" || tag === "NOSCRIPT" || tag === "TEMPLATE") return;
+    if (tag === "RT" || tag === "RP") return;
+    if (tag === "BR") {
+      out += "\n";
+      return;
+    }
+
+    const block = BLOCK_TAGS.has(tag);
+    // <p> 연속일 때 앞뒤 개행이 겹치면 paragraphBreak 보다 넓어지므로 이미 줄이 바뀌어 있으면 생략
+    if (block && !(tag === "P" && out.endsWith("\n"))) out += "\n";
+    n.childNodes.forEach(walk);
+    if (tag === "P") out += paragraphBreak;
+    else if (block) out += "\n";
+  };
+
+  walk(root);
+
+  return normalizeText(
+    out
+      .replace(/\u00a0/g, " ")
+      .replace(/ *\n */g, "\n")
+  );
+}
+
+export function parseHtml(html: string, url: string) {
+  // jsdom의 CSS 파싱 경고 등이 서버 로그를 덮지 않도록 콘솔은 버림
+  return new JSDOM(html, { url, virtualConsole: new VirtualConsole() });
+}
+
+// 사이트 개편 전/후 마크업을 함께 지원하려고 셀렉터 후보를 순서대로 시도
+export function queryFirst(root: ParentNode | null | undefined, selectors: string[]): Element | null {
+  if (!root) return null;
+  for (const sel of selectors) {
+    const el = root.querySelector(sel);
+    if (el) return el;
+  }
+  return null;
+}
+
+export function absoluteHref(a: Element | null | undefined, base: string) {
+  const href = a?.getAttribute("href");
+  if (!href) return undefined;
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return undefined;
+  }
+}
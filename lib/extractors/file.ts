@@ -0,0 +1,189 @@
+// lib/extractors/file.ts
+// 로컬 파일 가져오기: .txt / .html / .epub
+import { JSDOM } from "jsdom";
+import type { ExtractResult, ExtractedBookChapter } from "./types";
+import { domToText, extractFailure, normalizeText, parseHtml } from "./common";
+import { extractArticleFromHtml } from "./generic";
+import { decodeBytes } from "../encoding";
+import { openZip, type ZipArchive } from "../zip";
+
+function fileKind(name: string, contentType: string) {
+  const ext = (name.match(/\.([a-z0-9]+)$/i)?.[1] || "").toLowerCase();
+  if (ext === "epub" || contentType === "application/epub+zip") return "epub";
+  if (ext === "html" || ext === "htm" || ext === "xhtml" || /html/.test(contentType)) return "html";
+  if (ext === "txt" || ext === "text" || contentType.startsWith("text/")) return "txt";
+  return null;
+}
+
+function baseName(name: string) {
+  return name.replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "").trim();
+}
+
+/** -------------------------
+ *  EPUB
+ *  - container.xml → OPF → spine 순서대로 챕터 추출
+ *  - 챕터 제목: 목차(nav / toc.ncx) → 본문 첫 제목 태그
+ *  ------------------------- */
+const DC_NS = "http://purl.org/dc/elements/1.1/";
+
+function parseXml(xml: string): Document {
+  return new JSDOM(xml, { contentType: "text/xml" }).window.document;
+}
+
+// zip 안 경로 기준 상대 경로 해석 ("OEBPS/text/../ch1.xhtml" → "OEBPS/ch1.xhtml")
+function resolveZipPath(baseFile: string, href: string) {
+  const out = baseFile.split("/").slice(0, -1);
+  for (const part of decodeURIComponent(href.split("#")[0]).split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") out.pop();
+    else out.push(part);
+  }
+  return out.join("/");
+}
+
+function readEpubToc(zip: ZipArchive, opfPath: string, opf: Document) {
+  const titles = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagName("item"));
+
+  // EPUB3 nav 문서
+  const nav = items.find((it) => (it.getAttribute("properties") || "").split(/\s+/).includes("nav"));
+  if (nav) {
+    const navPath = resolveZipPath(opfPath, nav.getAttribute("href") || "");
+    const html = zip.readText(navPath);
+    if (html) {
+      const doc: Document = parseHtml(html, "file:///" + navPath).window.document;
+      doc.querySelectorAll("nav a[href]").forEach((a) => {
+        const path = resolveZipPath(navPath, a.getAttribute("href") || "");
+        const t = (a.textContent || "").trim();
+        if (t && !titles.has(path)) titles.set(path, t);
+      });
+    }
+  }
+
+  // EPUB2 toc.ncx
+  const ncx = items.find((it) => it.getAttribute("media-type") === "application/x-dtbncx+xml");
+  if (ncx && titles.size === 0) {
+    const ncxPath = resolveZipPath(opfPath, ncx.getAttribute("href") || "");
+    const xml = zip.readText(ncxPath);
+    if (xml) {
+      Array.from(parseXml(xml).getElementsByTagName("navPoint")).forEach((np) => {
+        const src = np.getElementsByTagName("content")[0]?.getAttribute("src") || "";
+        const t = (np.getElementsByTagName("text")[0]?.textContent || "").trim();
+        const path = resolveZipPath(ncxPath, src);
+        if (t && src && !titles.has(path)) titles.set(path, t);
+      });
+    }
+  }
+
+  return titles;
+}
+
+function extractEpub(name: string, bytes: Uint8Array): ExtractResult {
+  let zip: ZipArchive;
+  try {
+    zip = openZip(bytes);
+  } catch (e: any) {
+    return extractFailure(400, "EPUB_INVALID", `EPUB 파일을 열지 못했어요.\n${e?.message || e}`);
+  }
+
+  const container = zip.readText("META-INF/container.xml");
+  const opfPath = container
+    ? parseXml(container).getElementsByTagName("rootfile")[0]?.getAttribute("full-path") || ""
+    : "";
+  const opfXml = opfPath ? zip.readText(opfPath) : null;
+
+  if (!opfXml) {
+    return extractFailure(400, "EPUB_INVALID", "EPUB 목차 정보(OPF)를 찾지 못했어요.");
+  }
+
+  const opf = parseXml(opfXml);
+  const dc = (tag: string) => (opf.getElementsByTagNameNS(DC_NS, tag)[0]?.textContent || "").trim();
+  const bookTitle = dc("title") || baseName(name);
+  const author = dc("creator");
+
+  const manifest = new Map<string, { href: string; type: string }>();
+  Array.from(opf.getElementsByTagName("item")).forEach((it) => {
+    manifest.set(it.getAttribute("id") || "", {
+      href: it.getAttribute("href") || "",
+      type: it.getAttribute("media-type") || "",
+    });
+  });
+
+  const toc = readEpubToc(zip, opfPath, opf);
+  const chapters: ExtractedBookChapter[] = [];
+
+  for (const ref of Array.from(opf.getElementsByTagName("itemref"))) {
+    const item = manifest.get(ref.getAttribute("idref") || "");
+    if (!item || !/html/.test(item.type)) continue;
+
+    const path = resolveZipPath(opfPath, item.href);
+    const html = zip.readText(path);
+    if (!html) continue;
+
+    const doc: Document = parseHtml(html, "file:///" + path).window.document;
+    // 세로쓰기 EPUB 은 한 줄 = <p> 하나인 경우가 대부분
+    const text = doc.body ? domToText(doc.body, { paragraphBreak: "\n" }) : "";
+    // 표지/삽화만 있는 페이지는 건너뜀
+    if (!text.trim()) continue;
+
+    const heading = (doc.querySelector("h1, h2, h3")?.textContent || "").trim();
+    chapters.push({
+      title: toc.get(path) || heading || (doc.title || "").trim(),
+      text,
+    });
+  }
+
+  if (chapters.length === 0) {
+    return extractFailure(400, "EXTRACT_EMPTY", "EPUB 안에서 본문이 있는 챕터를 찾지 못했어요.");
+  }
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      kind: "book",
+      title: bookTitle,
+      chapters,
+      meta: { extractor: "file", strategy: "file", workTitle: bookTitle, author },
+    },
+  };
+}
+
+/** -------------------------
+ *  파일 → 본문
+ *  ------------------------- */
+export function importFile(name: string, bytes: Uint8Array, contentType = ""): ExtractResult {
+  const kind = fileKind(name, contentType);
+
+  if (kind === "epub") return extractEpub(name, bytes);
+
+  if (kind === "html") {
+    const decoded = decodeBytes(bytes, { contentType, html: true });
+    return extractArticleFromHtml(decoded.text, "file:///" + encodeURIComponent(name), contentType, {
+      extractor: "file",
+      encoding: decoded.encoding,
+    });
+  }
+
+  if (kind === "txt") {
+    const decoded = decodeBytes(bytes, { contentType });
+    const text = normalizeText(decoded.text);
+    if (!text) return extractFailure(400, "EXTRACT_EMPTY", "파일이 비어 있어요.");
+
+    return {
+      ok: true,
+      status: 200,
+      body: {
+        title: baseName(name),
+        text,
+        meta: { extractor: "file", strategy: "file", encoding: decoded.encoding },
+      },
+    };
+  }
+
+  return extractFailure(
+    400,
+    "FILE_UNSUPPORTED",
+    "지원하지 않는 파일 형식이에요. (.txt / .html / .epub 만 가능)"
+  );
+}
@@ -0,0 +1,138 @@
+// lib/extractors/generic.ts
+import { Readability } from "@mozilla/readability";
+import type { ExtractMeta, ExtractResult, SiteExtractor } from "./types";
+import {
+  absoluteHref,
+  buildCommonHeaders,
+  domToText,
+  extractFailure,
+  extractTextFromHtml,
+  extractTitleFromHtml,
+  fetchHtml,
+  parseHtml,
+  queryFirst,
+} from "./common";
+
+/** -------------------------
+ *  Readability Extract
+ *  ------------------------- */
+// Readability가 이보다 짧게 뽑으면 본문을 못 찾은 것으로 보고 정규식 방식으로 폴백
+const READABILITY_MIN_CHARS = 200;
+
+function extractWithReadability(doc: Document, url: string) {
+  try {
+    const article = new Readability(doc).parse();
+    if (!article?.content) return null;
+
+    const contentDom = parseHtml(`<body>${article.content}</body>`, url);
+    const text = domToText(contentDom.window.document.body);
+    if (text.length < READABILITY_MIN_CHARS) return null;
+
+    return {
+      title: String(article.title ?? "").trim(),
+      text,
+      byline: String(article.byline ?? "").trim(),
+      siteName: String(article.siteName ?? "").trim(),
+      excerpt: String(article.excerpt ?? "").trim(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// <link rel="next"> / <a rel="next"> (연재 블로그/개인 사이트의 이전·다음 글)
+function relNavLinks(doc: Document, url: string) {
+  const pick = (rel: string) => {
+    const el = queryFirst(doc, [`link[rel~="${rel}"][href]`, `a[rel~="${rel}"][href]`]);
+    const abs = absoluteHref(el, url);
+    // file:// 등(가져온 파일)은 다시 불러올 수 없으니 버림
+    return abs && /^https?:/.test(abs) ? abs : undefined;
+  };
+  return { prevUrl: pick("prev"), nextUrl: pick("next") };
+}
+
+/** -------------------------
+ *  HTML → 본문 (Readability → 정규식 폴백)
+ *  ------------------------- */
+export function extractArticleFromHtml(
+  html: string,
+  url: string,
+  contentType = "",
+  // 호출한 쪽이 알고 있는 값 (판별한 인코딩 등)
+  extraMeta: Partial<ExtractMeta> = {}
+): ExtractResult {
+  const doc: Document = parseHtml(html, url).window.document;
+  // Readability 가 문서를 고쳐 쓰기 전에 읽어 둠
+  const nav = relNavLinks(doc, url);
+
+  // 1) Readability: 메뉴/푸터/댓글을 걷어낸 본문
+  const article = extractWithReadability(doc, url);
+  if (article) {
+    return {
+      ok: true,
+      status: 200,
+      body: {
+        title: article.title || extractTitleFromHtml(html),
+        text: article.text,
+        meta: {
+          extractor: "generic",
+          strategy: "readability",
+          byline: article.byline,
+          siteName: article.siteName,
+          excerpt: article.excerpt,
+          ...nav,
+          ...extraMeta,
+        },
+      },
+    };
+  }
+
+  // 2) 폴백: 태그만 걷어내는 단순 추출
+  const title = extractTitleFromHtml(html);
+  const text = extractTextFromHtml(html);
+
+  if (!text) {
+    return extractFailure(
+      400,
+      "EXTRACT_EMPTY",
+      "본문을 추출하지 못했어요.\n- 사이트가 JS 렌더링이거나\n- 차단/권한 문제이거나\n- 이 단순 추출 방식으로는 잡히지 않을 수 있어요.",
+      `content-type: ${contentType}\n` + html.slice(0, 1200)
+    );
+  }
+
+  return {
+    ok: true,
+    status: 200,
+    body: { title, text, meta: { extractor: "generic", strategy: "regex", ...nav, ...extraMeta } },
+  };
+}
+
+/** -------------------------
+ *  Generic Extract (전용 추출기가 없는 사이트)
+ *  ------------------------- */
+export const genericExtractor: SiteExtractor = {
+  id: "generic",
+  label: "일반 웹페이지",
+  hosts: [],
+
+  match() {
+    return true;
+  },
+
+  async extract(u) {
+    const url = u.toString();
+    const headers = buildCommonHeaders();
+    const { res, html, contentType: ct, encoding } = await fetchHtml(url, { headers });
+
+    if (!res.ok) {
+      return extractFailure(
+        400,
+        "FETCH_FAILED",
+        `가져오기 실패: ${res.status} ${res.statusText}`,
+        html.slice(0, 1200)
+      );
+    }
+
+    return extractArticleFromHtml(html, url, ct, { encoding });
+  },
+};
@@ -0,0 +1,158 @@
+// lib/extractors/hameln.ts
+import type { ExtractResult, ExtractedSeriesEpisode, SiteExtractor } from "./types";
+import { absoluteHref, buildCommonHeaders, domToText, extractFailure, fetchHtml, parseHtml } from "./common";
+
+/** -------------------------
+ *  URL 판별
+ *  - 회차: https://syosetu.org/novel/123/4.html
+ *  - 목차/단편: https://syosetu.org/novel/123/
+ *  ------------------------- */
+function parseHamelnUrl(u: URL) {
+  if (u.hostname !== "syosetu.org" && !u.hostname.endsWith(".syosetu.org")) return null;
+  const m = u.pathname.match(/^\/novel\/(\d+)\/?(?:(\d+)\.html)?$/);
+  if (!m) return null;
+  return { novelId: m[1], chapterNo: m[2] ? Number(m[2]) : null };
+}
+
+/** -------------------------
+ *  Hameln Extract
+ *  ------------------------- */
+async function extractHameln(u: URL): Promise<ExtractResult> {
+  const parsed = parseHamelnUrl(u)!;
+  const url = u.toString();
+
+  const headers = buildCommonHeaders();
+  // R-18 작품의 연령 확인 페이지를 건너뜀
+  headers["cookie"] = "over18=off";
+
+  const { res, html } = await fetchHtml(url, { headers });
+
+  if (!res.ok) {
+    return extractFailure(
+      400,
+      "FETCH_FAILED",
+      `Hameln 페이지를 가져오지 못했어요: ${res.status} ${res.statusText}`,
+      html.slice(0, 1200)
+    );
+  }
+
+  const doc: Document = parseHtml(html, url).window.document;
+  const ss = doc.querySelector("#maind .ss") || doc.querySelector(".ss");
+
+  // 작품 제목/작가: 상단 "작품명　作：작가" 줄
+  const workLink = ss?.querySelector('p span[style*="120%"] a') || null;
+  const workTitle = (workLink?.textContent || "").trim();
+  const authorLink = Array.from(ss?.querySelectorAll("p a") || []).find((a) =>
+    /\/user\/\d+/.test(a.getAttribute("href") || "")
+  );
+  const author = (authorLink?.textContent || "").trim();
+
+  const honbun = doc.querySelector("#honbun");
+
+  // 본문이 없으면 목차 페이지 → 회차 목록 반환(시리즈 대기열로 처리)
+  if (!honbun) {
+    const seen = new Set<string>();
+    const episodes: ExtractedSeriesEpisode[] = [];
+
+    doc.querySelectorAll("a[href]").forEach((a) => {
+      // 깨진 href 하나 때문에 목차 전체가 실패하지 않게 건너뜀
+      const href = absoluteHref(a, url);
+      if (!href) return;
+      const abs = new URL(href);
+      const ep = parseHamelnUrl(abs);
+      if (!ep || ep.novelId !== parsed.novelId || ep.chapterNo == null) return;
+      if (seen.has(abs.pathname)) return;
+      seen.add(abs.pathname);
+
+      episodes.push({
+        id: String(ep.chapterNo),
+        title: (a.textContent || "").trim(),
+        episodeIndex: ep.chapterNo,
+        url: abs.toString(),
+        available: true,
+      });
+    });
+
+    if (episodes.length === 0) {
+      return extractFailure(
+        400,
+        "EXTRACT_EMPTY",
+        "Hameln 본문(#honbun)도 목차도 찾지 못했어요.\n- 삭제/비공개 작품이거나\n- 페이지 구조가 바뀌었을 수 있어요.",
+        html.slice(0, 1200)
+      );
+    }
+
+    episodes.sort((a, b) => a.episodeIndex - b.episodeIndex);
+    return {
+      ok: true,
+      status: 200,
+      body: {
+        kind: "series",
+        seriesId: parsed.novelId,
+        title: workTitle || (doc.title || "").replace(/\s*-\s*ハーメルン\s*$/, "").trim(),
+        episodes,
+        meta: { extractor: "hameln", strategy: "site", siteName: "ハーメルン", workTitle, author },
+      },
+    };
+  }
+
+  // 회차 제목: .ss 바로 아래 큰 글씨 span (작품명 span은 <p> 안에 있음)
+  const chapterTitleEl = Array.from(ss?.children || []).find(
+    (el) => el.tagName === "SPAN" && /120%/.test(el.getAttribute("style") || "")
+  );
+  const episodeTitle = (chapterTitleEl?.textContent || "").trim();
+
+  // 한 줄 = <p> 하나라서 문단 구분은 줄바꿈 하나로 충분
+  const text = domToText(honbun, { paragraphBreak: "\n" });
+  const maegaki = doc.querySelector("#maegaki");
+  const atogaki = doc.querySelector("#atogaki");
+
+  if (!text) {
+    return extractFailure(400, "EXTRACT_EMPTY", "Hameln 본문이 비어 있어요.", html.slice(0, 1200));
+  }
+
+  // 이전/다음 화 링크
+  const navUrl = (re: RegExp) => {
+    const a = Array.from(ss?.querySelectorAll("a[href]") || []).find((x) => re.test(x.textContent || ""));
+    return absoluteHref(a, url);
+  };
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      title: episodeTitle || workTitle,
+      text,
+      meta: {
+        extractor: "hameln",
+        strategy: "site",
+        siteName: "ハーメルン",
+        workTitle,
+        author,
+        episodeNo: parsed.chapterNo,
+        episodeTitle,
+        preface: maegaki ? domToText(maegaki, { paragraphBreak: "\n" }) : "",
+        afterword: atogaki ? domToText(atogaki, { paragraphBreak: "\n" }) : "",
+        prevUrl: navUrl(/前の話/),
+        nextUrl: navUrl(/次の話/),
+      },
+    },
+  };
+}
+
+/** -------------------------
+ *  Extractor
+ *  ------------------------- */
+export const hamelnExtractor: SiteExtractor = {
+  id: "hameln",
+  label: "ハーメルン",
+  hosts: ["syosetu.org"],
+
+  match(u) {
+    return !!parseHamelnUrl(u);
+  },
+
+  extract(u) {
+    return extractHameln(u);
+  },
+};
@@ -0,0 +1,44 @@
+// lib/extractors/index.ts
+import type { SiteExtractor, SupportedSite } from "./types";
+import { pixivExtractor } from "./pixiv";
+import { hamelnExtractor } from "./hameln";
+import { syosetuExtractor } from "./syosetu";
+import { kakuyomuExtractor } from "./kakuyomu";
+import { genericExtractor } from "./generic";
+
+export type {
+  ExtractContext,
+  ExtractErrorBody,
+  ExtractMeta,
+  ExtractResult,
+  ExtractedArticle,
+  ExtractedBook,
+  ExtractedBookChapter,
+  ExtractedSeries,
+  ExtractedSeriesEpisode,
+  SiteExtractor,
+  SupportedSite,
+} from "./types";
+export { genericExtractor };
+export { importFile } from "./file";
+export { checkPixivCookie, type PixivCookieStatus } from "./pixiv";
+
+/** -------------------------
+ *  사이트 추출기 레지스트리
+ *  - 새 사이트는 모듈을 만들고 여기 배열에만 추가하면 됨 (라우트 수정 불필요)
+ *  - 앞에서부터 match 되는 첫 추출기가 처리, 없으면 generic
+ *  ------------------------- */
+const SITE_EXTRACTORS: SiteExtractor[] = [
+  pixivExtractor,
+  hamelnExtractor,
+  syosetuExtractor,
+  kakuyomuExtractor,
+];
+
+export function findExtractor(u: URL): SiteExtractor {
+  return SITE_EXTRACTORS.find((x) => x.match(u)) ?? genericExtractor;
+}
+
+export function listSupportedSites(): SupportedSite[] {
+  return SITE_EXTRACTORS.map(({ id, label, hosts }) => ({ id, label, hosts }));
+}
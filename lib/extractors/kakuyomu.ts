@@ -0,0 +1,175 @@
+// lib/extractors/kakuyomu.ts
+import type { ExtractResult, ExtractedSeriesEpisode, SiteExtractor } from "./types";
+import {
+  absoluteHref,
+  buildCommonHeaders,
+  domToText,
+  extractFailure,
+  fetchHtml,
+  parseHtml,
+  queryFirst,
+} from "./common";
+
+/** -------------------------
+ *  URL 판별
+ *  - 회차: https://kakuyomu.jp/works/{workId}/episodes/{episodeId}
+ *  - 목차: https://kakuyomu.jp/works/{workId}
+ *  ------------------------- */
+function parseKakuyomuUrl(u: URL) {
+  if (u.hostname !== "kakuyomu.jp") return null;
+  const m = u.pathname.match(/^\/works\/(\d+)\/?(?:episodes\/(\d+)\/?)?$/);
+  if (!m) return null;
+  return { workId: m[1], episodeId: m[2] || null };
+}
+
+// 카쿠요무는 회차 번호를 따로 표기하지 않아서 제목의 "第N話"만 믿음
+function episodeNoFromTitle(title: string) {
+  const m = title.match(/第\s*(\d{1,4})\s*話/);
+  return m ? Number(m[1]) : null;
+}
+
+/** -------------------------
+ *  Kakuyomu Extract
+ *  ------------------------- */
+async function extractKakuyomu(u: URL): Promise<ExtractResult> {
+  const parsed = parseKakuyomuUrl(u)!;
+  const url = u.toString();
+
+  const { res, html } = await fetchHtml(url, { headers: buildCommonHeaders() });
+
+  if (!res.ok) {
+    return extractFailure(
+      400,
+      "FETCH_FAILED",
+      `카쿠요무 페이지를 가져오지 못했어요: ${res.status} ${res.statusText}`,
+      html.slice(0, 1200)
+    );
+  }
+
+  const doc: Document = parseHtml(html, url).window.document;
+
+  // <title>: "회차 - 작품명（작가） - カクヨム"
+  const titleParts = (doc.title || "").replace(/\s*-\s*カクヨム\s*$/, "").split(" - ");
+  const titleWork = (titleParts[titleParts.length - 1] || "").replace(/（[^（）]*）\s*$/, "").trim();
+
+  const workTitle =
+    (
+      queryFirst(doc, [
+        "#worksEpisodesEpisodeHeader-breadcrumbs h1 a",
+        "#workTitle a",
+        "#workTitle",
+      ])?.textContent || ""
+    ).trim() || titleWork;
+  const author = (
+    queryFirst(doc, ["#worksEpisodesEpisodeHeader-breadcrumbs .contentAuthorName", "#workAuthor-activityName a"])
+      ?.textContent || ""
+  ).trim();
+
+  // 목차 페이지 → 회차 목록 반환(시리즈 대기열로 처리)
+  if (!parsed.episodeId) return listKakuyomuEpisodes(doc, url, parsed.workId, workTitle, author);
+
+  const body = queryFirst(doc, [".widget-episodeBody", ".js-episode-body"]);
+  const text = body ? domToText(body, { paragraphBreak: "\n" }) : "";
+
+  if (!text) {
+    return extractFailure(
+      400,
+      "EXTRACT_EMPTY",
+      "카쿠요무 본문(.widget-episodeBody)을 찾지 못했어요.\n- 비공개 회차이거나\n- 페이지 구조가 바뀌었을 수 있어요.",
+      html.slice(0, 1200)
+    );
+  }
+
+  const episodeTitle = (queryFirst(doc, [".widget-episodeTitle"])?.textContent || "").trim();
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      title: episodeTitle || workTitle,
+      text,
+      meta: {
+        extractor: "kakuyomu",
+        strategy: "site",
+        siteName: "カクヨム",
+        workTitle,
+        author,
+        episodeNo: episodeNoFromTitle(episodeTitle),
+        episodeTitle,
+        prevUrl: absoluteHref(queryFirst(doc, ["#contentMain-readPreviousEpisode"]), url),
+        nextUrl: absoluteHref(queryFirst(doc, ["#contentMain-readNextEpisode"]), url),
+      },
+    },
+  };
+}
+
+function listKakuyomuEpisodes(
+  doc: Document,
+  url: string,
+  workId: string,
+  workTitle: string,
+  author: string
+): ExtractResult {
+  const episodes: ExtractedSeriesEpisode[] = [];
+  const seen = new Set<string>();
+
+  // 목차 링크는 문서 순서 = 연재 순서
+  doc.querySelectorAll(`a[href*="/works/${workId}/episodes/"]`).forEach((a) => {
+    // 목차 위 "1話目から読む"/최신화 버튼은 회차 제목 요소가 없음 → 건너뜀
+    // (먼저 잡히면 순번이 밀리고 버튼 글자가 제목이 되므로 중복 확인보다 먼저)
+    const titleEl = a.querySelector("[class*='title'], [class*='Title']");
+    if (!titleEl) return;
+
+    const abs = absoluteHref(a, url);
+    if (!abs) return;
+    const ep = parseKakuyomuUrl(new URL(abs));
+    if (!ep?.episodeId || ep.workId !== workId || seen.has(ep.episodeId)) return;
+    seen.add(ep.episodeId);
+
+    const title = (titleEl.textContent || "").trim();
+    episodes.push({
+      id: ep.episodeId,
+      title,
+      episodeIndex: episodes.length + 1,
+      url: abs,
+      available: true,
+    });
+  });
+
+  if (episodes.length === 0) {
+    return extractFailure(
+      400,
+      "EXTRACT_EMPTY",
+      "카쿠요무 목차에서 회차를 찾지 못했어요.\n(목차가 JS로만 그려지는 경우 회차 URL을 직접 넣어줘)"
+    );
+  }
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      kind: "series",
+      seriesId: workId,
+      title: workTitle,
+      episodes,
+      meta: { extractor: "kakuyomu", strategy: "site", siteName: "カクヨム", workTitle, author },
+    },
+  };
+}
+
+/** -------------------------
+ *  Extractor
+ *  ------------------------- */
+export const kakuyomuExtractor: SiteExtractor = {
+  id: "kakuyomu",
+  label: "カクヨム",
+  hosts: ["kakuyomu.jp"],
+
+  match(u) {
+    return !!parseKakuyomuUrl(u);
+  },
+
+  extract(u) {
+    return extractKakuyomu(u);
+  },
+};
@@ -0,0 +1,477 @@
+// lib/extractors/pixiv.ts
+import type {
+  ExtractContext,
+  ExtractErrorBody,
+  ExtractMeta,
+  ExtractResult,
+  ExtractedSeriesEpisode,
+  SiteExtractor,
+} from "./types";
+import {
+  buildCommonHeaders,
+  domToText,
+  extractFailure,
+  normalizeText,
+  parseHtml,
+  safeReadJsonWithMeta,
+} from "./common";
+import { listPixivImageKeys } from "../pixivMarkup";
+import { httpFetch } from "../http";
+
+/** -------------------------
+ *  URL 판별
+ *  ------------------------- */
+function isPixiv(u: URL) {
+  return u.hostname === "www.pixiv.net" || u.hostname.endsWith(".pixiv.net");
+}
+
+function isPixivNovelShow(u: URL) {
+  return (
+    u.hostname.includes("pixiv.net") &&
+    u.pathname === "/novel/show.php" &&
+    !!u.searchParams.get("id")
+  );
+}
+
+function pixivSeriesIdFromUrl(u: URL) {
+  if (!u.hostname.includes("pixiv.net")) return null;
+  // /novel/series/123 (언어 prefix: /en/novel/series/123 도 허용)
+  const m = u.pathname.match(/^(?:\/[a-z]{2})?\/novel\/series\/(\d+)\/?$/);
+  return m?.[1] || null;
+}
+
+/** -------------------------
+ *  Pixiv Novel Extract (AJAX)
+ *  ------------------------- */
+function pixivCookieRequired() {
+  return extractFailure(
+    401,
+    "PIXIV_COOKIE_REQUIRED",
+    "Pixiv 본문을 불러오려면 로그인 쿠키가 필요해요.\n설정에서 Pixiv 쿠키를 붙여넣고 다시 시도해줘."
+  );
+}
+
+function buildPixivAjaxHeaders(cookie: string, referer: string) {
+  const headers = buildCommonHeaders();
+  headers["cookie"] = cookie;
+  headers["referer"] = referer;
+  headers["origin"] = "https://www.pixiv.net";
+
+  return {
+    ...headers,
+    accept: "application/json, text/plain, */*",
+    "x-requested-with": "XMLHttpRequest",
+  };
+}
+
+/** -------------------------
+ *  본문 삽화 URL
+ *  - [uploadedimage:ID] : 메타 응답 body.textEmbeddedImages 에 들어 있음
+ *  - [pixivimage:ID-N]  : 일러스트 작품이라 insert_illusts 로 따로 조회
+ *  - 못 찾은 키는 빠짐 (뷰어가 자리표시로 보여줌)
+ *  ------------------------- */
+function pickImageUrl(urls: any) {
+  if (!urls || typeof urls !== "object") return "";
+  return String(urls["1200x1200"] || urls.original || urls.regular || urls["480mw"] || "");
+}
+
+async function resolvePixivImages(
+  novelId: string,
+  metaBody: any,
+  text: string,
+  headers: Record<string, string>
+) {
+  const images: Record<string, string> = {};
+  const keys = listPixivImageKeys(text);
+  if (keys.length === 0) return images;
+
+  const embedded = metaBody?.textEmbeddedImages || {};
+  for (const key of keys) {
+    const m = key.match(/^uploadedimage:(\d+)$/);
+    if (!m) continue;
+    const url = pickImageUrl(embedded?.[m[1]]?.urls);
+    if (url) images[key] = url;
+  }
+
+  const illustIds = keys.filter((k) => k.startsWith("pixivimage:")).map((k) => k.slice("pixivimage:".length));
+  if (illustIds.length > 0) {
+    // 삽화를 못 불러와도 본문 추출은 성공으로 처리
+    try {
+      const qs = illustIds.map((id) => `id[]=${encodeURIComponent(id)}`).join("&");
+      const res = await httpFetch(
+        `https://www.pixiv.net/ajax/novel/${encodeURIComponent(novelId)}/insert_illusts?${qs}`,
+        { headers }
+      );
+      const read = await safeReadJsonWithMeta(res);
+      const rows: any = read.okJson ? (read.data as any)?.body : null;
+
+      for (const id of illustIds) {
+        const url = pickImageUrl(rows?.[id]?.illust?.images);
+        if (url) images[`pixivimage:${id}`] = url;
+      }
+    } catch {
+      // ignore
+    }
+  }
+
+  return images;
+}
+
+/** -------------------------
+ *  작품 메타 (작가/태그/캡션/시리즈 위치/글자 수/연령 제한)
+ *  ------------------------- */
+function pixivNovelMeta(b: any): ExtractMeta {
+  const meta: ExtractMeta = { extractor: "pixiv", strategy: "ajax", siteName: "pixiv", markup: "pixiv" };
+  if (!b || typeof b !== "object") return meta;
+
+  const str = (v: any) => (v == null ? "" : String(v).trim());
+  const num = (v: any) => (Number.isFinite(Number(v)) && v !== "" && v != null ? Number(v) : null);
+
+  meta.author = str(b.userName);
+  meta.authorId = str(b.userId);
+
+  const tagRows: any[] = Array.isArray(b.tags?.tags) ? b.tags.tags : [];
+  meta.tags = tagRows.map((t) => str(t?.tag)).filter(Boolean);
+
+  // description 은 <br /> 와 링크가 섞인 HTML
+  const description = str(b.description);
+  meta.caption = description
+    ? domToText(parseHtml(`<div>${description}</div>`, "https://www.pixiv.net/").window.document.body, {
+        paragraphBreak: "\n",
+      })
+    : "";
+
+  meta.characterCount = num(b.characterCount ?? b.textCount);
+  meta.createDate = str(b.createDate || b.uploadDate);
+  meta.xRestrict = num(b.xRestrict) ?? 0;
+
+  // 시리즈 회차면 작품 제목 = 시리즈 제목, 회차 번호 = 시리즈 내 순서
+  const nav = b.seriesNavData;
+  if (nav && nav.seriesId != null) {
+    meta.seriesId = str(nav.seriesId);
+    meta.seriesTitle = str(nav.title);
+    meta.seriesOrder = num(nav.order);
+
+    meta.workTitle = meta.seriesTitle;
+    meta.episodeNo = meta.seriesOrder;
+    meta.episodeTitle = str(b.title);
+
+    // 이웃 회차 (열람 불가 회차는 링크를 주지 않음)
+    const navUrl = (x: any) =>
+      x && x.id != null && x.available !== false
+        ? `https://www.pixiv.net/novel/show.php?id=${encodeURIComponent(String(x.id))}`
+        : undefined;
+    meta.prevUrl = navUrl(nav.prev);
+    meta.nextUrl = navUrl(nav.next);
+  }
+
+  return meta;
+}
+
+async function extractPixivNovel(u: URL, cookie: string): Promise<ExtractResult> {
+  const novelId = u.searchParams.get("id")!;
+
+  const c = (cookie || "").trim();
+  if (!c) return pixivCookieRequired();
+
+  const ajaxHeaders = buildPixivAjaxHeaders(
+    c,
+    `https://www.pixiv.net/novel/show.php?id=${encodeURIComponent(novelId)}`
+  );
+
+  // 1) meta
+  const metaRes = await httpFetch(`https://www.pixiv.net/ajax/novel/${encodeURIComponent(novelId)}`, {
+    headers: ajaxHeaders,
+  });
+  const metaRead = await safeReadJsonWithMeta(metaRes);
+
+  if (!metaRes.ok || !metaRead.okJson) {
+    return {
+      ok: false,
+      status: metaRes.status || 400,
+      body: {
+        error:
+          `Pixiv 메타 정보를 불러오지 못했어요.\n` +
+          `- status: ${metaRes.status} ${metaRes.statusText}\n` +
+          `- content-type: ${metaRead.meta.contentType || "unknown"}\n` +
+          (metaRead.meta.notJson
+            ? "Pixiv가 JSON 대신 HTML을 반환했어요(차단/캡차/로그인유도 가능).\n"
+            : ""),
+        code: metaRead.meta.notJson ? "PIXIV_RETURNED_NON_JSON_META" : "PIXIV_META_FETCH_FAILED",
+        debug: metaRead.meta.notJson ? metaRead.meta.raw : undefined,
+      },
+    };
+  }
+
+  const metaJson: any = metaRead.data;
+  const title =
+    String(metaJson?.body?.title ?? "").trim() ||
+    String(metaJson?.body?.novelTitle ?? "").trim() ||
+    "";
+
+  // 2) pages
+  const pagesRes = await httpFetch(
+    `https://www.pixiv.net/ajax/novel/${encodeURIComponent(novelId)}/pages`,
+    { headers: ajaxHeaders }
+  );
+  const pagesRead = await safeReadJsonWithMeta(pagesRes);
+
+  if (!pagesRes.ok || !pagesRead.okJson) {
+    return {
+      ok: false,
+      status: pagesRes.status || 400,
+      body: {
+        error:
+          `Pixiv pages 정보를 불러오지 못했어요.\n` +
+          `- status: ${pagesRes.status} ${pagesRes.statusText}\n` +
+          `- content-type: ${pagesRead.meta.contentType || "unknown"}\n` +
+          (pagesRead.meta.notJson
+            ? "Pixiv가 JSON 대신 HTML을 반환했어요(서버 IP 차단/봇체크/캡차 가능).\n"
+            : ""),
+        code: pagesRead.meta.notJson ? "PIXIV_RETURNED_NON_JSON_PAGES" : "PIXIV_PAGES_FETCH_FAILED",
+        debug: pagesRead.meta.notJson ? pagesRead.meta.raw : undefined,
+      },
+    };
+  }
+
+  const pagesJson: any = pagesRead.data;
+  const body = pagesJson?.body;
+
+  let text = "";
+
+  // Pixiv 응답 구조는 바뀔 수 있어서 여러 케이스 대응
+  if (Array.isArray(body)) {
+    const parts = body
+      .map((p: any) => (p?.text ?? p?.content ?? "").toString())
+      .map(normalizeText)
+      .filter(Boolean);
+    // 페이지 경계는 Pixiv 태그로 남겨야 뷰어/번역에서 페이지 나눔이 유지됨
+    text = parts.join("\n[newpage]\n");
+  } else if (body && Array.isArray(body.pages)) {
+    const parts = body.pages
+      .map((p: any) => (p?.text ?? p?.content ?? "").toString())
+      .map(normalizeText)
+      .filter(Boolean);
+    text = parts.join("\n[newpage]\n");
+  } else if (body?.content) {
+    text = normalizeText(String(body.content || ""));
+  } else if (body?.text) {
+    text = normalizeText(String(body.text || ""));
+  }
+
+  if (!text) {
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error:
+          "Pixiv pages 응답은 받았는데 본문이 비어있어요.\n" +
+          "- 권한/차단/구조변경 가능\n" +
+          "- 또는 pages 응답 구조가 예상과 달라졌을 수 있어요.",
+        code: "PIXIV_EXTRACT_EMPTY",
+        debug: JSON.stringify(pagesJson)?.slice(0, 1200),
+      },
+    };
+  }
+
+  const images = await resolvePixivImages(novelId, metaJson?.body, text, ajaxHeaders);
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      title,
+      text,
+      images,
+      meta: pixivNovelMeta(metaJson?.body),
+    },
+  };
+}
+
+/** -------------------------
+ *  Pixiv Series (회차 목록)
+ *  ------------------------- */
+async function listPixivSeries(seriesId: string, cookie: string): Promise<ExtractResult> {
+  const c = (cookie || "").trim();
+  if (!c) return pixivCookieRequired();
+
+  const ajaxHeaders = buildPixivAjaxHeaders(
+    c,
+    `https://www.pixiv.net/novel/series/${encodeURIComponent(seriesId)}`
+  );
+
+  // 1) 시리즈 메타(제목)
+  const metaRes = await httpFetch(
+    `https://www.pixiv.net/ajax/novel/series/${encodeURIComponent(seriesId)}`,
+    { headers: ajaxHeaders }
+  );
+  const metaRead = await safeReadJsonWithMeta(metaRes);
+
+  if (!metaRes.ok || !metaRead.okJson) {
+    return {
+      ok: false,
+      status: metaRes.status || 400,
+      body: {
+        error:
+          `Pixiv 시리즈 정보를 불러오지 못했어요.\n` +
+          `- status: ${metaRes.status} ${metaRes.statusText}\n` +
+          `- content-type: ${metaRead.meta.contentType || "unknown"}\n` +
+          (metaRead.meta.notJson
+            ? "Pixiv가 JSON 대신 HTML을 반환했어요(차단/캡차/로그인유도 가능).\n"
+            : ""),
+        code: metaRead.meta.notJson ? "PIXIV_RETURNED_NON_JSON_META" : "PIXIV_SERIES_FETCH_FAILED",
+        debug: metaRead.meta.notJson ? metaRead.meta.raw : undefined,
+      },
+    };
+  }
+
+  const metaJson: any = metaRead.data;
+  const title = String(metaJson?.body?.title ?? "").trim();
+
+  // 2) 회차 목록 (시리즈 순서대로 내려옴)
+  const listRes = await httpFetch(
+    `https://www.pixiv.net/ajax/novel/series/${encodeURIComponent(seriesId)}/content_titles`,
+    { headers: ajaxHeaders }
+  );
+  const listRead = await safeReadJsonWithMeta(listRes);
+
+  if (!listRes.ok || !listRead.okJson) {
+    return {
+      ok: false,
+      status: listRes.status || 400,
+      body: {
+        error:
+          `Pixiv 시리즈 회차 목록을 불러오지 못했어요.\n` +
+          `- status: ${listRes.status} ${listRes.statusText}\n` +
+          `- content-type: ${listRead.meta.contentType || "unknown"}\n`,
+        code: listRead.meta.notJson ? "PIXIV_RETURNED_NON_JSON_META" : "PIXIV_SERIES_FETCH_FAILED",
+        debug: listRead.meta.notJson ? listRead.meta.raw : undefined,
+      },
+    };
+  }
+
+  const rows: any[] = Array.isArray((listRead.data as any)?.body) ? (listRead.data as any).body : [];
+  const episodes: ExtractedSeriesEpisode[] = rows
+    .filter((r) => r && r.id != null)
+    .map((r, i) => ({
+      id: String(r.id),
+      title: String(r.title ?? "").trim(),
+      episodeIndex: i + 1,
+      url: `https://www.pixiv.net/novel/show.php?id=${encodeURIComponent(String(r.id))}`,
+      // 비공개/마이픽 한정 회차는 available=false 로 내려옴
+      available: r.available !== false,
+    }));
+
+  if (episodes.length === 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: "Pixiv 시리즈에 불러올 수 있는 회차가 없어요.",
+        code: "PIXIV_SERIES_EMPTY",
+        debug: JSON.stringify(listRead.data)?.slice(0, 1200),
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      kind: "series",
+      seriesId,
+      title,
+      episodes,
+      meta: {
+        extractor: "pixiv",
+        strategy: "ajax",
+        siteName: "pixiv",
+        workTitle: title,
+        author: String(metaJson?.body?.userName ?? "").trim(),
+        authorId: String(metaJson?.body?.userId ?? "").trim(),
+        seriesId,
+        seriesTitle: title,
+        xRestrict: Number(metaJson?.body?.xRestrict) || 0,
+      },
+    },
+  };
+}
+
+/** -------------------------
+ *  쿠키 상태 확인 (설정 화면용)
+ *  - 로그인 여부 / 계정 / R-18 표시 설정
+ *  ------------------------- */
+export type PixivCookieStatus = {
+  loggedIn: boolean;
+  userId: string;
+  userName: string;
+  // 0: R-18 숨김 / 1: R-18 표시 / 2: R-18G까지 표시
+  xRestrict: number;
+};
+
+export async function checkPixivCookie(
+  cookie: string
+): Promise<{ ok: boolean; status: number; body: PixivCookieStatus | ExtractErrorBody }> {
+  const c = (cookie || "").trim();
+  if (!c) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: "Pixiv 쿠키가 비어 있어요.", code: "PIXIV_COOKIE_REQUIRED" },
+    };
+  }
+
+  const res = await httpFetch("https://www.pixiv.net/touch/ajax/user/self/status?lang=ja", {
+    headers: buildPixivAjaxHeaders(c, "https://www.pixiv.net/"),
+  });
+  const read = await safeReadJsonWithMeta(res);
+
+  if (!res.ok || !read.okJson) {
+    return {
+      ok: false,
+      status: 502,
+      body: {
+        error: `Pixiv 로그인 상태를 확인하지 못했어요.\n- status: ${res.status} ${res.statusText}`,
+        code: read.meta.notJson ? "PIXIV_RETURNED_NON_JSON_META" : "PIXIV_STATUS_FETCH_FAILED",
+        debug: read.meta.notJson ? read.meta.raw : undefined,
+      },
+    };
+  }
+
+  const u: any = (read.data as any)?.body?.user_status || (read.data as any)?.body || {};
+  const userId = String(u.user_id ?? u.id ?? "").trim();
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      // 비로그인 쿠키는 user_id 가 비어 있거나 0 으로 옴
+      loggedIn: !!userId && userId !== "0",
+      userId,
+      userName: String(u.user_name ?? u.name ?? "").trim(),
+      xRestrict: Number(u.user_x_restrict ?? u.x_restrict ?? u.xRestrict) || 0,
+    },
+  };
+}
+
+/** -------------------------
+ *  Extractor
+ *  ------------------------- */
+export const pixivExtractor: SiteExtractor = {
+  id: "pixiv",
+  label: "Pixiv 소설",
+  hosts: ["pixiv.net"],
+
+  match(u) {
+    return isPixiv(u) && (isPixivNovelShow(u) || !!pixivSeriesIdFromUrl(u));
+  },
+
+  extract(u, ctx: ExtractContext) {
+    // novel/series/... 은 회차 목록만 반환(본문은 클라이언트가 회차별로 다시 요청)
+    const seriesId = pixivSeriesIdFromUrl(u);
+    if (seriesId) return listPixivSeries(seriesId, ctx.cookie);
+
+    // novel/show.php?id=... 은 AJAX로
+    return extractPixivNovel(u, ctx.cookie);
+  },
+};
@@ -0,0 +1,197 @@
+// lib/extractors/syosetu.ts
+import type { ExtractResult, ExtractedSeriesEpisode, SiteExtractor } from "./types";
+import {
+  absoluteHref,
+  buildCommonHeaders,
+  domToText,
+  extractFailure,
+  fetchHtml,
+  parseHtml,
+  queryFirst,
+} from "./common";
+
+/** -------------------------
+ *  URL 판별
+ *  - 회차: https://ncode.syosetu.com/n1234ab/5/
+ *  - 목차/단편: https://ncode.syosetu.com/n1234ab/
+ *  - R-18: novel18.syosetu.com
+ *  ------------------------- */
+function parseSyosetuUrl(u: URL) {
+  if (u.hostname !== "ncode.syosetu.com" && u.hostname !== "novel18.syosetu.com") return null;
+  const m = u.pathname.match(/^\/(n\d+[a-z]+)\/?(?:(\d+)\/?)?$/i);
+  if (!m) return null;
+  return { ncode: m[1].toLowerCase(), episodeNo: m[2] ? Number(m[2]) : null };
+}
+
+// 목차가 100화 단위로 나뉘어 있어서 따라갈 최대 페이지 수
+const MAX_TOC_PAGES = 20;
+
+async function fetchSyosetuHtml(url: string) {
+  const headers = buildCommonHeaders();
+  // novel18 연령 확인 페이지를 건너뜀
+  headers["cookie"] = "over18=yes";
+
+  return fetchHtml(url, { headers });
+}
+
+/** -------------------------
+ *  Syosetu Extract
+ *  ------------------------- */
+async function extractSyosetu(u: URL): Promise<ExtractResult> {
+  const parsed = parseSyosetuUrl(u)!;
+  const url = u.toString();
+
+  const { res, html } = await fetchSyosetuHtml(url);
+  if (!res.ok) {
+    return extractFailure(
+      400,
+      "FETCH_FAILED",
+      `소설가가 되자 페이지를 가져오지 못했어요: ${res.status} ${res.statusText}`,
+      html.slice(0, 1200)
+    );
+  }
+
+  const doc: Document = parseHtml(html, url).window.document;
+
+  // 2024 개편 마크업(p-novel__*) → 구 마크업(#novel_*) 순서로 시도
+  const workTitle = (
+    queryFirst(doc, [".c-announce-box .c-announce a[href]", ".contents1 a[href]", ".novel_title"])
+      ?.textContent || ""
+  ).trim();
+  const author = (
+    queryFirst(doc, ['.c-announce a[href*="mypage.syosetu.com"]', ".novel_writername a"])
+      ?.textContent || ""
+  ).trim();
+
+  const honbun = queryFirst(doc, [
+    ".p-novel__body .p-novel__text:not(.p-novel__text--preface):not(.p-novel__text--afterword)",
+    "#novel_honbun",
+  ]);
+
+  // 본문이 없으면 목차 → 회차 목록 반환(시리즈 대기열로 처리)
+  if (!honbun) return listSyosetuEpisodes(doc, url, parsed.ncode, workTitle, author);
+
+  const text = domToText(honbun, { paragraphBreak: "\n" });
+  if (!text) {
+    return extractFailure(400, "EXTRACT_EMPTY", "소설가가 되자 본문이 비어 있어요.", html.slice(0, 1200));
+  }
+
+  const episodeTitle = (
+    queryFirst(doc, [".p-novel__title", ".novel_subtitle"])?.textContent || ""
+  ).trim();
+
+  // "5/100" 표기 → 없으면 URL의 회차 번호
+  const numberText = (queryFirst(doc, [".p-novel__number", "#novel_no"])?.textContent || "").trim();
+  const numberMatch = numberText.match(/^(\d+)\s*\//);
+  const episodeNo = numberMatch ? Number(numberMatch[1]) : parsed.episodeNo;
+
+  const preface = queryFirst(doc, [".p-novel__text--preface", "#novel_p"]);
+  const afterword = queryFirst(doc, [".p-novel__text--afterword", "#novel_a"]);
+
+  const navLinks = Array.from(doc.querySelectorAll(".novel_bn a[href]"));
+  const prev =
+    queryFirst(doc, ["a.c-pager__item--before"]) ||
+    navLinks.find((a) => /前へ/.test(a.textContent || ""));
+  const next =
+    queryFirst(doc, ["a.c-pager__item--next"]) || navLinks.find((a) => /次へ/.test(a.textContent || ""));
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      title: episodeTitle || workTitle,
+      text,
+      meta: {
+        extractor: "syosetu",
+        strategy: "site",
+        siteName: "小説家になろう",
+        workTitle,
+        author,
+        episodeNo,
+        episodeTitle,
+        preface: preface ? domToText(preface, { paragraphBreak: "\n" }) : "",
+        afterword: afterword ? domToText(afterword, { paragraphBreak: "\n" }) : "",
+        prevUrl: absoluteHref(prev, url),
+        nextUrl: absoluteHref(next, url),
+      },
+    },
+  };
+}
+
+async function listSyosetuEpisodes(
+  firstDoc: Document,
+  firstUrl: string,
+  ncode: string,
+  workTitle: string,
+  author: string
+): Promise<ExtractResult> {
+  const episodes: ExtractedSeriesEpisode[] = [];
+  const seen = new Set<number>();
+
+  let doc: Document | null = firstDoc;
+  let pageUrl = firstUrl;
+
+  for (let page = 0; doc && page < MAX_TOC_PAGES; page++) {
+    doc.querySelectorAll("a[href]").forEach((a) => {
+      const abs = absoluteHref(a, pageUrl);
+      if (!abs) return;
+      const ep = parseSyosetuUrl(new URL(abs));
+      if (!ep || ep.ncode !== ncode || ep.episodeNo == null || seen.has(ep.episodeNo)) return;
+      seen.add(ep.episodeNo);
+
+      episodes.push({
+        id: String(ep.episodeNo),
+        title: (a.textContent || "").trim(),
+        episodeIndex: ep.episodeNo,
+        url: abs,
+        available: true,
+      });
+    });
+
+    const nextPage = absoluteHref(queryFirst(doc, ["a.c-pager__item--next"]), pageUrl);
+    if (!nextPage || nextPage === pageUrl) break;
+
+    const { res, html } = await fetchSyosetuHtml(nextPage);
+    if (!res.ok) break;
+    doc = parseHtml(html, nextPage).window.document;
+    pageUrl = nextPage;
+  }
+
+  if (episodes.length === 0) {
+    return extractFailure(
+      400,
+      "EXTRACT_EMPTY",
+      "소설가가 되자 본문도 목차도 찾지 못했어요.\n- 삭제/비공개 작품이거나\n- 페이지 구조가 바뀌었을 수 있어요."
+    );
+  }
+
+  episodes.sort((a, b) => a.episodeIndex - b.episodeIndex);
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      kind: "series",
+      seriesId: ncode,
+      title: workTitle,
+      episodes,
+      meta: { extractor: "syosetu", strategy: "site", siteName: "小説家になろう", workTitle, author },
+    },
+  };
+}
+
+/** -------------------------
+ *  Extractor
+ *  ------------------------- */
+export const syosetuExtractor: SiteExtractor = {
+  id: "syosetu",
+  label: "小説家になろう",
+  hosts: ["ncode.syosetu.com", "novel18.syosetu.com"],
+
+  match(u) {
+    return !!parseSyosetuUrl(u);
+  },
+
+  extract(u) {
+    return extractSyosetu(u);
+  },
+};
@@ -0,0 +1,107 @@
+// lib/extractors/types.ts
+import type { ApiErrorBody } from "../errors";
+
+/** -------------------------
+ *  추출 결과 (API 응답 body)
+ *  ------------------------- */
+export type ExtractMeta = {
+  // 처리한 추출기 id (SiteExtractor.id)
+  extractor: string;
+  // 본문을 뽑은 방식
+  strategy: "ajax" | "site" | "readability" | "regex" | "file";
+
+  siteName?: string;
+  byline?: string;
+  excerpt?: string;
+  // 본문에 사이트 고유 태그가 섞여 있음 (Pixiv: [newpage]/[chapter:]/[[rb:]] 등)
+  markup?: "pixiv";
+  // HTML을 읽을 때 판별한 문자 인코딩 (shift_jis / euc-jp 등)
+  encoding?: string;
+
+  // 회차 단위 사이트(Hameln 등)에서 채워지는 값
+  workTitle?: string;
+  author?: string;
+  episodeNo?: number | null;
+  episodeTitle?: string;
+  preface?: string; // 前書き
+  afterword?: string; // 後書き
+  prevUrl?: string;
+  nextUrl?: string;
+
+  // 작품 정보 (Pixiv 메타 응답에서 채워짐)
+  authorId?: string;
+  tags?: string[];
+  caption?: string; // 작품 설명 (태그 제거한 텍스트)
+  seriesId?: string;
+  seriesTitle?: string;
+  seriesOrder?: number | null; // 시리즈 내 순서 (1부터)
+  characterCount?: number | null;
+  createDate?: string; // ISO 문자열
+  xRestrict?: number; // 0: 전체 연령 / 1: R-18 / 2: R-18G
+};
+
+export type ExtractedArticle = {
+  title: string;
+  text: string;
+  // 본문 삽화 태그 키 → 이미지 URL (Pixiv: "uploadedimage:123" / "pixivimage:456-1")
+  images?: Record<string, string>;
+  meta: ExtractMeta;
+};
+
+// 시리즈/목차 URL: 본문 대신 회차 목록을 돌려줌 (클라이언트가 회차별로 다시 요청)
+export type ExtractedSeriesEpisode = {
+  id: string;
+  title: string;
+  episodeIndex: number; // 시리즈 내 순서 (1부터)
+  url: string;
+  available: boolean;
+};
+
+export type ExtractedSeries = {
+  kind: "series";
+  seriesId: string;
+  title: string;
+  episodes: ExtractedSeriesEpisode[];
+  meta: ExtractMeta;
+};
+
+// EPUB 등 한 파일에 여러 챕터: 본문까지 한 번에 돌려줌
+export type ExtractedBookChapter = {
+  title: string;
+  text: string;
+};
+
+export type ExtractedBook = {
+  kind: "book";
+  title: string;
+  chapters: ExtractedBookChapter[];
+  meta: ExtractMeta;
+};
+
+// code 목록은 lib/errors.ts (클라이언트와 공용)
+export type ExtractErrorBody = ApiErrorBody;
+
+export type ExtractResult =
+  | { ok: true; status: number; body: ExtractedArticle | ExtractedSeries | ExtractedBook }
+  | { ok: false; status: number; body: ExtractErrorBody };
+
+/** -------------------------
+ *  사이트 추출기
+ *  ------------------------- */
+export type ExtractContext = {
+  // Pixiv 등 로그인이 필요한 사이트용 (설정에서 붙여넣은 값)
+  cookie: string;
+};
+
+export type SiteExtractor = {
+  id: string;
+  // UI "지원 사이트" 힌트에 쓰는 이름
+  label: string;
+  // 전용 추출기가 담당하는 호스트 (하위 도메인 포함)
+  hosts: string[];
+
+  match(u: URL): boolean;
+  extract(u: URL, ctx: ExtractContext): Promise<ExtractResult>;
+};
+
+export type SupportedSite = Pick<SiteExtractor, "id" | "label" | "hosts">;
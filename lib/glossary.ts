@@ -0,0 +1,184 @@
+// lib/glossary.ts
+// 용어집: 번역 엔진과 상관없이 고정 번역을 강제
+//
+// 1) 번역 전: 원문에서 용어를 찾아 ⟦G1⟧ 같은 표식으로 바꿔서 엔진에 보냄 (엔진이 못 건드리게)
+// 2) 번역 후: 표식을 지정한 번역어로 되돌림
+//    - 엔진이 표식을 지웠는데 원문 용어가 결과에 그대로 남아 있으면 그 자리를 치환
+//
+// ※ 클라이언트(용어집 편집/검증)와 서버(/api/translate) 양쪽에서 씀 → node 전용 모듈 금지
+
+export type GlossaryScope = "global" | "folder" | "series";
+
+export type GlossaryEntry = {
+  id: string;
+  source: string;
+  target: string;
+  // 기본은 대소문자 무시
+  caseSensitive?: boolean;
+  // source 를 정규식으로 해석 (target 에서 $1 등 사용 가능)
+  regex?: boolean;
+};
+
+// 클라이언트 저장 형태 (어디에 속한 항목인지)
+export type ScopedGlossaryEntry = GlossaryEntry & {
+  scope: GlossaryScope;
+  // folder: 폴더 id / series: 시리즈 제목 / global: ""
+  scopeKey: string;
+};
+
+export type GlossaryHit = {
+  id: string;
+  source: string;
+  target: string;
+  count: number;
+};
+
+export type GlossaryReport = {
+  hits: GlossaryHit[];
+  // 번역 후 표식이 사라져서 적용 못 한 항목
+  missing: string[];
+};
+
+// 한 번에 보내는 항목 수 상한 (요청 본문이 과하게 커지지 않게)
+export const MAX_GLOSSARY_ENTRIES = 500;
+
+const TOKEN_RE = /⟦\s*G\s*(\d+)\s*⟧/gi;
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function compileGlossaryEntry(e: GlossaryEntry): RegExp | null {
+  if (!e.source) return null;
+  try {
+    return new RegExp(e.regex ? e.source : escapeRegExp(e.source), e.caseSensitive ? "g" : "gi");
+  } catch {
+    return null;
+  }
+}
+
+// 편집 화면용: 정규식 오류 메시지 (문제 없으면 "")
+export function glossaryEntryError(e: GlossaryEntry) {
+  if (!e.source.trim()) return "원문 용어가 비어 있어요.";
+  if (!e.regex) return "";
+  try {
+    // 빈 문자열에 걸리는 정규식은 무한히 매칭되므로 막음
+    if (new RegExp(e.source).test("")) return "빈 문자열과 일치하는 정규식은 쓸 수 없어요.";
+    return "";
+  } catch (err: any) {
+    return `정규식 오류: ${err?.message || err}`;
+  }
+}
+
+// 요청 본문 정리 (서버)
+export function normalizeGlossary(v: unknown): GlossaryEntry[] {
+  if (!Array.isArray(v)) return [];
+  const out: GlossaryEntry[] = [];
+  for (const x of v.slice(0, MAX_GLOSSARY_ENTRIES)) {
+    if (!x || typeof x.source !== "string" || typeof x.target !== "string") continue;
+    const entry: GlossaryEntry = {
+      id: typeof x.id === "string" ? x.id : String(out.length),
+      source: x.source,
+      target: x.target,
+      caseSensitive: !!x.caseSensitive,
+      regex: !!x.regex,
+    };
+    if (!glossaryEntryError(entry)) out.push(entry);
+  }
+  return out;
+}
+
+/** -------------------------
+ *  번역 전: 용어 → 표식
+ *  - entries 앞쪽이 우선 (시리즈 → 폴더 → 전체 순으로 넘겨줄 것)
+ *  ------------------------- */
+export type GlossaryMask = {
+  text: string;
+  tokens: Array<{ entry: GlossaryEntry; target: string }>;
+};
+
+export function maskGlossary(text: string, entries: GlossaryEntry[]): GlossaryMask {
+  const tokens: GlossaryMask["tokens"] = [];
+  let out = text;
+
+  for (const entry of entries) {
+    const re = compileGlossaryEntry(entry);
+    if (!re) continue;
+
+    // 앞 항목이 넣은 표식(클라이언트의 ⟦P1⟧ 포함) 안쪽은 건드리지 않도록 표식 단위로 잘라서 처리
+    out = out
+      .split(/(⟦[A-Z]\d+⟧)/)
+      .map((part) =>
+        /^⟦[A-Z]\d+⟧$/.test(part)
+          ? part
+          : part.replace(re, (...args) => {
+              const matched = args[0] as string;
+              if (!matched) return matched;
+              // 정규식이면 $1 같은 참조를 이 매치 기준으로 풀어서 저장
+              const target = entry.regex
+                ? matched.replace(new RegExp(re.source, re.flags.replace("g", "")), entry.target)
+                : entry.target;
+              tokens.push({ entry, target });
+              return `⟦G${tokens.length}⟧`;
+            })
+      )
+      .join("");
+  }
+
+  return { text: out, tokens };
+}
+
+/** -------------------------
+ *  번역 후: 표식 → 번역어 (+ 사라진 표식 보정)
+ *  ------------------------- */
+export function unmaskGlossary(translated: string, mask: GlossaryMask): { text: string; report: GlossaryReport } {
+  const counts = new Map<string, GlossaryHit>();
+  const used = new Set<number>();
+
+  const hit = (entry: GlossaryEntry) => {
+    const h = counts.get(entry.id) || { id: entry.id, source: entry.source, target: entry.target, count: 0 };
+    h.count++;
+    counts.set(entry.id, h);
+  };
+
+  let out = translated.replace(TOKEN_RE, (m, n) => {
+    const t = mask.tokens[Number(n) - 1];
+    if (!t) return m;
+    used.add(Number(n) - 1);
+    hit(t.entry);
+    return t.target;
+  });
+
+  // 엔진이 표식을 빼먹은 항목: 결과에 원문 용어가 남아 있으면 그대로 치환
+  const missing = new Set<string>();
+  mask.tokens.forEach((t, i) => {
+    if (used.has(i)) return;
+    const re = compileGlossaryEntry(t.entry);
+    let fixed = false;
+    if (re) {
+      out = out.replace(re, (m) => {
+        if (fixed || !m) return m;
+        fixed = true;
+        return t.target;
+      });
+    }
+    if (fixed) hit(t.entry);
+    else missing.add(t.entry.id);
+  });
+
+  return { text: out, report: { hits: Array.from(counts.values()), missing: Array.from(missing) } };
+}
+
+// 여러 조각의 보고서 합치기 (클라이언트)
+export function mergeGlossaryReports(reports: GlossaryReport[]): GlossaryReport {
+  const counts = new Map<string, GlossaryHit>();
+  const missing = new Set<string>();
+  for (const r of reports) {
+    for (const h of r.hits) {
+      const prev = counts.get(h.id);
+      counts.set(h.id, prev ? { ...prev, count: prev.count + h.count } : { ...h });
+    }
+    r.missing.forEach((id) => missing.add(id));
+  }
+  return { hits: Array.from(counts.values()), missing: Array.from(missing) };
+}
@@ -0,0 +1,254 @@
+// lib/http.ts
+// 서버 → 외부 사이트/번역 API 호출 공용 레이어 (서버 전용)
+//
+// - 요청마다 타임아웃 (본문을 읽는 동안에도: 조각 사이 idle + 전체 상한)
+// - 429 / 5xx / 네트워크 오류는 지수 백오프로 재시도 (Retry-After 우선)
+// - 호스트별 동시 요청 수 제한 (Pixiv/번역 API 에 한꺼번에 몰리지 않게, 본문을 다 읽거나 버릴 때까지 자리 차지)
+// - 재시도 횟수는 요청 단위로 모아서 응답에 실어 보냄 (withHttpStats)
+import { AsyncLocalStorage } from "async_hooks";
+import { SafeFetchError, safeFetch } from "./safeFetch";
+
+export type HttpOptions = {
+  // 헤더 수신까지, 그리고 본문 조각 사이 최대 대기
+  timeoutMs?: number;
+  // 본문을 다 읽기까지 전체 상한 (SSE 스트림 포함)
+  bodyTimeoutMs?: number;
+  // 첫 시도 제외 재시도 횟수
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // 사용자가 넣은 URL이면 true → safeFetch(SSRF 방지/크기 상한)로 보냄
+  safe?: boolean;
+};
+
+const DEFAULTS: Required<HttpOptions> = {
+  timeoutMs: Number(process.env.HTTP_TIMEOUT_MS) || 20_000,
+  bodyTimeoutMs: Number(process.env.HTTP_BODY_TIMEOUT_MS) || 300_000,
+  retries: Number(process.env.HTTP_RETRIES ?? 3),
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  safe: false,
+};
+
+const RETRY_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/** -------------------------
+ *  호스트별 동시 요청 제한
+ *  ------------------------- */
+const DEFAULT_HOST_CONCURRENCY = Number(process.env.HTTP_HOST_CONCURRENCY) || 4;
+
+// 차단에 민감한 곳은 더 보수적으로
+const HOST_CONCURRENCY: Record<string, number> = {
+  "www.pixiv.net": 2,
+  "i.pximg.net": 4,
+  "syosetu.org": 2,
+  "ncode.syosetu.com": 2,
+  "novel18.syosetu.com": 2,
+  "kakuyomu.jp": 2,
+};
+
+const hostSlots = new Map<string, { active: number; waiting: Array<() => void> }>();
+
+async function acquireHost(host: string) {
+  const limit = HOST_CONCURRENCY[host] ?? DEFAULT_HOST_CONCURRENCY;
+  let slot = hostSlots.get(host);
+  if (!slot) {
+    slot = { active: 0, waiting: [] };
+    hostSlots.set(host, slot);
+  }
+
+  if (slot.active >= limit) await new Promise<void>((resolve) => slot!.waiting.push(resolve));
+  slot.active++;
+
+  return () => {
+    slot!.active--;
+    const next = slot!.waiting.shift();
+    if (next) next();
+    else if (slot!.active === 0) hostSlots.delete(host);
+  };
+}
+
+/** -------------------------
+ *  요청 단위 통계 (재시도 횟수)
+ *  ------------------------- */
+export type HttpStats = {
+  requests: number;
+  retries: number;
+};
+
+const statsStore = new AsyncLocalStorage<HttpStats>();
+
+// fn 안에서 일어난 httpFetch 의 요청/재시도 수를 모아서 함께 돌려줌
+export async function withHttpStats<T>(fn: () => Promise<T>) {
+  const stats: HttpStats = { requests: 0, retries: 0 };
+  const result = await statsStore.run(stats, fn);
+  return { result, stats };
+}
+
+/** -------------------------
+ *  재시도 대기 시간
+ *  ------------------------- */
+function retryAfterMs(res: Response | null) {
+  const v = res?.headers.get("retry-after");
+  if (!v) return null;
+
+  const sec = Number(v);
+  if (Number.isFinite(sec)) return Math.max(0, sec * 1000);
+
+  const at = Date.parse(v);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+function backoffMs(attempt: number, opts: Required<HttpOptions>, res: Response | null) {
+  const fromHeader = retryAfterMs(res);
+  const exp = opts.baseDelayMs * 2 ** attempt;
+  // 여러 요청이 같은 순간에 다시 몰리지 않게 약간 흔듦
+  const jitter = Math.random() * opts.baseDelayMs;
+  return Math.min(opts.maxDelayMs, fromHeader ?? exp + jitter);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+    const t = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** -------------------------
+ *  한 번 시도 (타임아웃 포함)
+ *  - 본문은 감싸서 돌려줌: 다 읽거나 취소/타임아웃되면 그때 release (호스트 자리 반환)
+ *  ------------------------- */
+async function attemptOnce(url: string, init: RequestInit, opts: Required<HttpOptions>, release: () => void) {
+  if (opts.safe) {
+    // safeFetch 는 본문까지 다 읽어서 돌려주므로 바로 반환
+    try {
+      return await safeFetch(url, init, { timeoutMs: opts.timeoutMs });
+    } finally {
+      release();
+    }
+  }
+
+  const controller = new AbortController();
+  const outer = init.signal;
+  const onOuterAbort = () => controller.abort();
+  outer?.addEventListener("abort", onOuterAbort);
+
+  let timedOut = false;
+  const timeoutError = () =>
+    new SafeFetchError(
+      "FETCH_TIMEOUT",
+      504,
+      `응답이 너무 늦어요. (${Math.ceil(opts.timeoutMs / 1000)}초 초과: ${new URL(url).hostname})`
+    );
+
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let totalTimer: ReturnType<typeof setTimeout> | undefined;
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    clearTimeout(idleTimer);
+    clearTimeout(totalTimer);
+    outer?.removeEventListener("abort", onOuterAbort);
+    release();
+  };
+  // 아무도 본문을 안 읽어도 시간이 지나면 연결을 끊고 자리를 돌려줌
+  const onTimeout = () => {
+    timedOut = true;
+    controller.abort();
+    finish();
+  };
+  const armIdle = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(onTimeout, opts.timeoutMs);
+  };
+
+  armIdle();
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, signal: controller.signal });
+  } catch (e: any) {
+    finish();
+    if (e?.name === "AbortError" && timedOut && !outer?.aborted) throw timeoutError();
+    throw e;
+  }
+
+  if (!res.body) {
+    finish();
+    return res;
+  }
+
+  armIdle();
+  totalTimer = setTimeout(onTimeout, opts.bodyTimeoutMs);
+  const reader = res.body.getReader();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(c) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          finish();
+          c.close();
+          return;
+        }
+        armIdle();
+        c.enqueue(value);
+      } catch (e: any) {
+        finish();
+        c.error(timedOut && !outer?.aborted ? timeoutError() : e);
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason).catch(() => {});
+    },
+  });
+
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+/** -------------------------
+ *  httpFetch
+ *  ------------------------- */
+export async function httpFetch(url: string, init: RequestInit = {}, options: HttpOptions = {}) {
+  const opts = { ...DEFAULTS, ...options };
+  const host = new URL(url).hostname;
+  const stats = statsStore.getStore();
+
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireHost(host);
+    let res: Response | null = null;
+    let error: any = null;
+
+    try {
+      if (stats) stats.requests++;
+      // release 는 attemptOnce 가 본문을 다 읽었거나 버렸을 때 부름
+      res = await attemptOnce(url, init, opts, release);
+    } catch (e: any) {
+      error = e;
+    }
+
+    // 호출한 쪽에서 취소했거나, SSRF 차단처럼 다시 해도 같은 결과인 오류는 바로 던짐
+    if (error) {
+      const retriable =
+        !init.signal?.aborted &&
+        (!(error instanceof SafeFetchError) || error.code === "FETCH_TIMEOUT");
+      if (!retriable || attempt >= opts.retries) throw error;
+    } else if (!RETRY_STATUS.has(res!.status) || attempt >= opts.retries) {
+      return res!;
+    }
+
+    if (stats) stats.retries++;
+    // 재시도할 응답 본문은 버림 (소켓/호스트 자리 반환)
+    res?.body?.cancel().catch(() => {});
+    await sleep(backoffMs(attempt, opts, res), init.signal);
+  }
+}
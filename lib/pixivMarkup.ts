@@ -0,0 +1,232 @@
+// lib/pixivMarkup.ts
+// Pixiv 소설 본문 태그 파서 (서버/클라이언트 공용)
+//
+//   [newpage]                    페이지 나눔
+//   [chapter:제목]               챕터 제목 (한 줄 단독)
+//   [[rb:漢字 > かんじ]]          루비
+//   [jump:3]                     3페이지로 이동 링크
+//   [[jumpuri:표시 > https://…]] 외부 링크
+//   [uploadedimage:123]          본문 삽입 이미지 (작가 업로드)
+//   [pixivimage:456-1]           본문 삽입 일러스트 (pixiv 작품 ID[-페이지])
+
+/** -------------------------
+ *  Types
+ *  ------------------------- */
+export type PixivInline =
+  | { type: "text"; text: string }
+  | { type: "ruby"; base: string; reading: string }
+  | { type: "link"; text: string; url: string }
+  | { type: "jump"; page: number };
+
+export type PixivBlock =
+  | { type: "chapter"; title: string }
+  // 연속된 본문 줄 (인라인 태그는 원문 그대로 들고 있음 → parsePixivInline)
+  | { type: "text"; text: string }
+  // 한 줄 전체가 [jump:N] 인 경우
+  | { type: "jump"; page: number }
+  // 삽화: key 는 "uploadedimage:123" / "pixivimage:456-1" (이미지 URL 맵의 키)
+  | { type: "image"; key: string };
+
+export type PixivPage = { blocks: PixivBlock[] };
+export type PixivDocument = { pages: PixivPage[] };
+
+const ANY_TAG_RE =
+  /\[newpage\]|\[chapter:|\[\[rb:|\[jump:\d+\]|\[\[jumpuri:|\[uploadedimage:\d+\]|\[pixivimage:\d+(?:-\d+)?\]/;
+const CHAPTER_LINE_RE = /^\s*\[chapter:(.*)\]\s*$/;
+const JUMP_LINE_RE = /^\s*\[jump:(\d+)\]\s*$/;
+const IMAGE_TAG_RE = /\[((?:uploadedimage:\d+)|(?:pixivimage:\d+(?:-\d+)?))\]/g;
+const INLINE_RE = /\[\[rb:\s*(.+?)\s*>\s*(.+?)\s*\]\]|\[\[jumpuri:\s*(.+?)\s*>\s*(.+?)\s*\]\]|\[jump:(\d+)\]/g;
+
+export function hasPixivMarkup(text: string) {
+  return ANY_TAG_RE.test(text || "");
+}
+
+// 한 줄 전체가 Pixiv 블록 태그인지 (부제목/회차 추출에서 제외용)
+export function isPixivTagLine(line: string) {
+  return /^\s*\[(newpage|chapter:.*|jump:\d+|uploadedimage:\d+|pixivimage:\d+(?:-\d+)?)\]\s*$/.test(line);
+}
+
+// 본문에 등장하는 삽화 태그 키 목록 ("uploadedimage:123", "pixivimage:456-1")
+export function listPixivImageKeys(text: string) {
+  return Array.from(new Set(Array.from((text || "").matchAll(IMAGE_TAG_RE), (m) => m[1])));
+}
+
+/** -------------------------
+ *  Parse
+ *  ------------------------- */
+export function parsePixivMarkup(raw: string): PixivDocument {
+  const text = (raw || "").replace(/\r\n/g, "\n");
+
+  const pages = text.split(/\[newpage\]/).map((pageText) => {
+    const blocks: PixivBlock[] = [];
+    let buf: string[] = [];
+
+    const flush = () => {
+      const t = buf.join("\n").replace(/^\n+|\n+$/g, "");
+      if (t.trim()) blocks.push({ type: "text", text: t });
+      buf = [];
+    };
+
+    for (const line of pageText.split("\n")) {
+      const ch = line.match(CHAPTER_LINE_RE);
+      if (ch) {
+        flush();
+        blocks.push({ type: "chapter", title: ch[1].trim() });
+        continue;
+      }
+
+      const jump = line.match(JUMP_LINE_RE);
+      if (jump) {
+        flush();
+        blocks.push({ type: "jump", page: Number(jump[1]) });
+        continue;
+      }
+
+      // 삽화 태그는 문장 중간에 있어도 블록으로 떼어냄 (번역기에 안 보내고 그대로 유지)
+      const parts = line.split(IMAGE_TAG_RE);
+      if (parts.length > 1) {
+        parts.forEach((part, i) => {
+          if (i % 2 === 1) {
+            flush();
+            blocks.push({ type: "image", key: part });
+          } else if (part.trim()) buf.push(part);
+        });
+        continue;
+      }
+
+      buf.push(line);
+    }
+    flush();
+
+    return { blocks };
+  });
+
+  // 맨 앞/뒤 [newpage] 로 생긴 빈 페이지는 버림
+  return { pages: pages.filter((p) => p.blocks.length > 0) };
+}
+
+// 외부 링크는 http(s) 만 (javascript: 등은 링크로 만들지 않음)
+export function isSafeLinkUrl(url: string) {
+  try {
+    const u = new URL(url);
+    return u.protocol === "http:" || u.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function parsePixivInline(text: string): PixivInline[] {
+  const out: PixivInline[] = [];
+  let last = 0;
+
+  for (const m of (text || "").matchAll(INLINE_RE)) {
+    const idx = m.index ?? 0;
+    if (idx > last) out.push({ type: "text", text: text.slice(last, idx) });
+
+    if (m[1] != null) out.push({ type: "ruby", base: m[1], reading: m[2] });
+    else if (m[3] != null) {
+      out.push(isSafeLinkUrl(m[4]) ? { type: "link", text: m[3], url: m[4] } : { type: "text", text: m[3] });
+    }
+    else out.push({ type: "jump", page: Number(m[5]) });
+
+    last = idx + m[0].length;
+  }
+
+  if (last < (text || "").length) out.push({ type: "text", text: text.slice(last) });
+  return out;
+}
+
+// 번역기에 보낼 순수 텍스트: 루비는 본문 글자만, 링크는 표시 텍스트만, 문장 속 jump는 제거
+export function inlineToPlain(inlines: PixivInline[]) {
+  return inlines
+    .map((x) =>
+      x.type === "text" ? x.text : x.type === "ruby" ? x.base : x.type === "link" ? x.text : ""
+    )
+    .join("");
+}
+
+/** -------------------------
+ *  번역 계획 (텍스트 부분만 번역 → 태그 골격에 다시 끼움)
+ *  - JSON 으로 저장 가능한 형태 (중간 저장/이어하기 대비)
+ *  ------------------------- */
+export type PixivPlanBlock =
+  | { type: "chapter"; unit: number }
+  | {
+      type: "text";
+      units: number[];
+      rubies: Array<{ base: string; reading: string }>;
+      links: Array<{ text: string; url: string }>;
+    }
+  // 번역하지 않고 그대로 다시 쓰는 태그
+  | { type: "raw"; text: string };
+
+export type PixivTranslationPlan = {
+  units: string[];
+  pages: PixivPlanBlock[][];
+};
+
+export function buildPixivTranslationPlan(
+  doc: PixivDocument,
+  chunk: (text: string) => string[]
+): PixivTranslationPlan {
+  const units: string[] = [];
+
+  const pages = doc.pages.map((page) =>
+    page.blocks.map((b): PixivPlanBlock => {
+      if (b.type === "chapter") {
+        units.push(inlineToPlain(parsePixivInline(b.title)));
+        return { type: "chapter", unit: units.length - 1 };
+      }
+
+      if (b.type === "jump") return { type: "raw", text: `[jump:${b.page}]` };
+      if (b.type === "image") return { type: "raw", text: `[${b.key}]` };
+
+      const inlines = parsePixivInline(b.text);
+      const blockUnits = chunk(inlineToPlain(inlines)).map((t) => units.push(t) - 1);
+
+      return {
+        type: "text",
+        units: blockUnits,
+        rubies: inlines.flatMap((x) => (x.type === "ruby" ? [{ base: x.base, reading: x.reading }] : [])),
+        links: inlines.flatMap((x) => (x.type === "link" ? [{ text: x.text, url: x.url }] : [])),
+      };
+    })
+  );
+
+  return { units, pages };
+}
+
+export function assemblePixivTranslation(plan: PixivTranslationPlan, translated: string[]) {
+  const unit = (i: number) => (translated[i] ?? "").trim();
+
+  return plan.pages
+    .map((blocks) =>
+      blocks
+        .map((b) => {
+          if (b.type === "raw") return b.text;
+          if (b.type === "chapter") return `[chapter:${unit(b.unit)}]`;
+
+          let t = b.units.map(unit).filter(Boolean).join("\n\n");
+
+          // 루비: 본문 글자가 번역문에 그대로 남아 있을 때만 다시 씌움
+          for (const r of b.rubies) {
+            const at = t.indexOf(r.base);
+            if (at >= 0) {
+              t = t.slice(0, at) + `[[rb:${r.base} > ${r.reading}]]` + t.slice(at + r.base.length);
+            }
+          }
+
+          // 링크: 표시 텍스트가 남아 있으면 그 자리에, 번역돼서 사라졌으면 URL을 잃지 않게 끝에 붙임
+          for (const l of b.links) {
+            const at = t.indexOf(l.text);
+            const tag = `[[jumpuri:${l.text} > ${l.url}]]`;
+            t = at >= 0 ? t.slice(0, at) + tag + t.slice(at + l.text.length) : `${t}\n${tag}`;
+          }
+
+          return t;
+        })
+        .filter(Boolean)
+        .join("\n\n")
+    )
+    .join("\n\n[newpage]\n\n");
+}
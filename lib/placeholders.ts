@@ -0,0 +1,74 @@
+// lib/placeholders.ts
+// 번역 전 표식 가리기: 엔진이 건드리면 안 되는 부분을 ⟦P1⟧ 같은 표식으로 바꿔 보내고, 받은 뒤 되돌림
+//
+//   "#01" 같은 회차 줄       → 그대로 유지해야 함 (Google 은 프롬프트가 없어서 자주 바꿈)
+//   URL                     → 번역/띄어쓰기로 깨짐
+//   Pixiv 태그              → 태그 문법이 깨지면 복원 불가
+//
+// 루비는 가리지 않고 본문 글자만 남겨 보냄 (읽기는 버림)
+// → 낱말이 번역되도록. Pixiv 경로(lib/pixivMarkup.ts inlineToPlain)와 같은 처리
+// 용어집 용어는 서버(/api/translate)에서 ⟦G1⟧ 로 따로 가림 (lib/glossary.ts)
+// ※ 클라이언트 전용으로 쓰지만 node 모듈은 쓰지 않음
+
+export type PlaceholderKind = "episode" | "pixiv" | "url";
+
+export type PlaceholderMask = {
+  text: string;
+  tokens: Array<{ kind: PlaceholderKind; original: string }>;
+};
+
+// [[rb:漢字 > かんじ]] / ｜漢字《かんじ》 / 漢字《かんじ》 → 漢字
+const RUBY_RE =
+  /\[\[rb:\s*(.+?)\s*>\s*.+?\s*\]\]|[｜|]([^｜|《\n]{1,20})《[^》\n]{1,30}》|([一-鿿々〆ヶ]{1,20})《[^》\n]{1,30}》/g;
+
+// 앞쪽 규칙이 먼저 (jumpuri 안의 URL 은 태그째로 가려야 하므로 url 은 뒤)
+const RULES: Array<{ kind: PlaceholderKind; re: RegExp }> = [
+  {
+    kind: "pixiv",
+    re: /\[\[jumpuri:[^\]\n]*?\]\]|\[(?:newpage|jump:\d+|uploadedimage:\d+|pixivimage:\d+(?:-\d+)?)\]/g,
+  },
+  { kind: "url", re: /https?:\/\/[^\s<>"'「」（）()\[\]]+/g },
+  // 한 줄 전체가 #1 / #01
+  { kind: "episode", re: /^[ \t]*#[ \t]*\d{1,4}[ \t]*$/gm },
+];
+
+// 이미 들어간 표식 (⟦P1⟧, 서버 용어집의 ⟦G1⟧)
+const ANY_TOKEN_SPLIT = /(⟦[A-Z]\d+⟧)/;
+const TOKEN_RE = /⟦\s*P\s*(\d+)\s*⟧/gi;
+
+export function maskPlaceholders(text: string): PlaceholderMask {
+  const tokens: PlaceholderMask["tokens"] = [];
+  let out = text.replace(RUBY_RE, (_, rb, bar, kanji) => rb ?? bar ?? kanji);
+
+  for (const { kind, re } of RULES) {
+    out = out
+      .split(ANY_TOKEN_SPLIT)
+      .map((part) =>
+        ANY_TOKEN_SPLIT.test(part)
+          ? part
+          : part.replace(re, (m) => {
+              tokens.push({ kind, original: m });
+              return `⟦P${tokens.length}⟧`;
+            })
+      )
+      .join("");
+  }
+
+  return { text: out, tokens };
+}
+
+// 되돌리기: 엔진이 지운 표식은 원문 그대로 missing 으로 돌려줌 (조각 경고용)
+export function unmaskPlaceholders(translated: string, mask: PlaceholderMask): { text: string; missing: string[] } {
+  if (mask.tokens.length === 0) return { text: translated, missing: [] };
+
+  const used = new Set<number>();
+  const text = translated.replace(TOKEN_RE, (m, n) => {
+    const t = mask.tokens[Number(n) - 1];
+    if (!t) return m;
+    used.add(Number(n) - 1);
+    return t.original;
+  });
+
+  const missing = mask.tokens.filter((_, i) => !used.has(i)).map((t) => t.original);
+  return { text, missing };
+}
@@ -0,0 +1,283 @@
+// lib/safeFetch.ts
+// 사용자가 넣은 URL을 서버가 대신 가져올 때 쓰는 fetch (SSRF 방지, 서버 전용)
+//
+// - http/https 만 허용
+// - 호스트를 DNS 로 풀어서 사설/루프백/링크로컬/메타데이터 주소면 거부
+// - 리다이렉트는 직접 따라가면서 매 홉마다 다시 검사 (최대 횟수 제한)
+// - 응답 시간/크기 상한
+// - 연결은 검사한 주소로 고정 (검사 뒤 DNS 를 다시 풀지 않음 → DNS rebinding 방지)
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { Agent, fetch as undiciFetch } from "undici";
+import type { ApiErrorCode } from "./errors";
+
+export type SafeFetchErrorCode = Extract<
+  ApiErrorCode,
+  "URL_NOT_ALLOWED" | "TOO_MANY_REDIRECTS" | "RESPONSE_TOO_LARGE" | "FETCH_TIMEOUT"
+>;
+
+export class SafeFetchError extends Error {
+  code: SafeFetchErrorCode;
+  status: number;
+
+  constructor(code: SafeFetchErrorCode, status: number, message: string) {
+    super(message);
+    this.name = "SafeFetchError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type SafeFetchOptions = {
+  maxRedirects?: number;
+  timeoutMs?: number;
+  maxBytes?: number;
+};
+
+const DEFAULTS: Required<SafeFetchOptions> = {
+  maxRedirects: 5,
+  timeoutMs: 20_000,
+  maxBytes: 10 * 1024 * 1024,
+};
+
+/** -------------------------
+ *  주소 검사
+ *  ------------------------- */
+function ipv4ToInt(ip: string) {
+  return ip.split(".").reduce((n, part) => (n << 8) + Number(part), 0) >>> 0;
+}
+
+// [시작 주소, prefix 길이]
+const BLOCKED_V4: Array<[string, number]> = [
+  ["0.0.0.0", 8], // "이 네트워크"
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // CGNAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // 링크로컬 (클라우드 메타데이터 169.254.169.254 포함)
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24], // 문서 예시용 TEST-NET-1
+  ["192.88.99.0", 24], // 6to4 릴레이 (폐지, 예약)
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // 벤치마크용
+  ["198.51.100.0", 24], // 문서 예시용 TEST-NET-2
+  ["203.0.113.0", 24], // 문서 예시용 TEST-NET-3
+  ["224.0.0.0", 4], // 멀티캐스트
+  ["240.0.0.0", 4], // 예약 + 브로드캐스트
+];
+
+function isBlockedIPv4(ip: string) {
+  const n = ipv4ToInt(ip);
+  return BLOCKED_V4.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return (n & mask) === (ipv4ToInt(base) & mask);
+  });
+}
+
+// IPv6 → 16비트 그룹 8개 (끝이 점 표기 IPv4 인 형태 포함). 형식이 틀리면 null
+function parseIPv6(a: string): number[] | null {
+  let s = a;
+  const v4 = s.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const n = ipv4ToInt(v4[2]);
+    s = `${v4[1]}${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`;
+  }
+
+  const halves = s.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const fill = 8 - head.length - tail.length;
+  if (halves.length === 1 ? fill !== 0 : fill < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? fill : 0).fill("0"), ...tail].map((g) =>
+    /^[0-9a-f]{1,4}$/.test(g) ? parseInt(g, 16) : NaN
+  );
+  return groups.some((g) => Number.isNaN(g)) ? null : groups;
+}
+
+function v4FromGroups(hi: number, lo: number) {
+  return `${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`;
+}
+
+function isBlockedIPv6(ip: string) {
+  const g = parseIPv6(ip.toLowerCase().replace(/^\[|\]$/g, "").replace(/%.*$/, ""));
+  if (!g) return true;
+
+  // IPv4 를 품은 형태는 안쪽 IPv4 로 다시 검사
+  const zero = (from: number, to: number) => g.slice(from, to).every((x) => x === 0);
+  // ::ffff:a.b.c.d (IPv4-mapped) / ::a.b.c.d (IPv4-compatible, ::/::1 포함)
+  if (zero(0, 5) && (g[5] === 0xffff || g[5] === 0)) return isBlockedIPv4(v4FromGroups(g[6], g[7]));
+  // 64:ff9b::a.b.c.d (NAT64)
+  if (g[0] === 0x64 && g[1] === 0xff9b && zero(2, 6)) return isBlockedIPv4(v4FromGroups(g[6], g[7]));
+  // 64:ff9b:1::/48 (사설 NAT64)
+  if (g[0] === 0x64 && g[1] === 0xff9b && g[2] === 1) return true;
+  // 2002:a.b.c.d::/48 (6to4)
+  if (g[0] === 0x2002) return isBlockedIPv4(v4FromGroups(g[1], g[2]));
+  // 2001:0::/32 (Teredo) — 안쪽 주소가 뒤섞여 있어서 통째로 거부
+  if (g[0] === 0x2001 && g[1] === 0) return true;
+
+  if ((g[0] & 0xfe00) === 0xfc00) return true; // fc00::/7 고유 로컬 (AWS fd00:ec2::254 포함)
+  if ((g[0] & 0xffc0) === 0xfe80) return true; // fe80::/10 링크로컬
+  if ((g[0] & 0xff00) === 0xff00) return true; // 멀티캐스트
+  return false;
+}
+
+export function isBlockedAddress(ip: string) {
+  const v = isIP(ip.replace(/^\[|\]$/g, ""));
+  if (v === 4) return isBlockedIPv4(ip);
+  if (v === 6) return isBlockedIPv6(ip);
+  return true;
+}
+
+// 통과하면 연결해도 되는 주소 목록을 돌려줌
+export async function assertPublicUrl(u: URL): Promise<string[]> {
+  if (u.protocol !== "http:" && u.protocol !== "https:") {
+    throw new SafeFetchError("URL_NOT_ALLOWED", 400, `http/https 주소만 불러올 수 있어요. (${u.protocol})`);
+  }
+
+  const host = u.hostname.replace(/^\[|\]$/g, "");
+  if (!host || host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal")) {
+    throw new SafeFetchError("URL_NOT_ALLOWED", 400, `내부 주소는 불러올 수 없어요. (${u.hostname})`);
+  }
+
+  let addresses: string[];
+  if (isIP(host)) addresses = [host];
+  else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((x) => x.address);
+    } catch {
+      throw new SafeFetchError("URL_NOT_ALLOWED", 400, `주소를 찾을 수 없어요. (${u.hostname})`);
+    }
+  }
+
+  // 하나라도 내부 주소로 풀리면 거부 (라운드로빈으로 섞어 두는 경우 대비)
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked || addresses.length === 0) {
+    throw new SafeFetchError(
+      "URL_NOT_ALLOWED",
+      400,
+      `사설망/내부 주소로 연결되는 URL은 불러올 수 없어요. (${u.hostname} → ${blocked || "주소 없음"})`
+    );
+  }
+  return addresses;
+}
+
+// 검사한 주소로만 연결하는 dispatcher (IP 주소 URL 은 lookup 을 안 거치므로 그대로)
+function pinnedAgent(addresses: string[]) {
+  const address = addresses[0];
+  const family = isIP(address);
+  return new Agent({
+    connect: {
+      lookup: (_hostname: string, options: any, cb: (...args: any[]) => void) => {
+        if (options?.all) cb(null, [{ address, family }]);
+        else cb(null, address, family);
+      },
+    },
+  });
+}
+
+/** -------------------------
+ *  응답 본문 (크기 상한)
+ *  ------------------------- */
+async function readLimited(res: Response, maxBytes: number, controller: AbortController) {
+  const declared = Number(res.headers.get("content-length") || 0);
+  if (declared > maxBytes) {
+    controller.abort();
+    throw new SafeFetchError("RESPONSE_TOO_LARGE", 413, tooLargeMessage(maxBytes));
+  }
+
+  if (!res.body) return new Uint8Array(0);
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      controller.abort();
+      throw new SafeFetchError("RESPONSE_TOO_LARGE", 413, tooLargeMessage(maxBytes));
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.byteLength;
+  }
+  return out;
+}
+
+function tooLargeMessage(maxBytes: number) {
+  return `응답이 너무 커요. (최대 ${Math.round(maxBytes / 1024 / 1024)}MB)`;
+}
+
+/** -------------------------
+ *  safeFetch
+ *  - 본문까지 다 읽은 Response 를 돌려줌 (res.text()/json()/arrayBuffer() 그대로 사용 가능)
+ *  ------------------------- */
+export async function safeFetch(input: string, init: RequestInit = {}, options: SafeFetchOptions = {}) {
+  const opts = { ...DEFAULTS, ...options };
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), opts.timeoutMs);
+  const outer = init.signal;
+  const onOuterAbort = () => controller.abort();
+  outer?.addEventListener("abort", onOuterAbort);
+
+  try {
+    let current = new URL(input);
+
+    for (let hop = 0; ; hop++) {
+      const dispatcher = pinnedAgent(await assertPublicUrl(current));
+
+      try {
+        const res = (await undiciFetch(current.toString(), {
+          ...(init as any),
+          redirect: "manual",
+          signal: controller.signal,
+          dispatcher,
+        })) as unknown as Response;
+
+        const location = res.headers.get("location");
+        if (res.status >= 300 && res.status < 400 && location) {
+          if (hop >= opts.maxRedirects) {
+            throw new SafeFetchError(
+              "TOO_MANY_REDIRECTS",
+              400,
+              `리다이렉트가 너무 많아요. (최대 ${opts.maxRedirects}번)`
+            );
+          }
+          // 리다이렉트 응답 본문은 버림
+          res.body?.cancel().catch(() => {});
+          current = new URL(location, current);
+          continue;
+        }
+
+        const body = await readLimited(res, opts.maxBytes, controller);
+        return new Response(res.status === 204 || res.status === 304 ? null : body, {
+          status: res.status,
+          statusText: res.statusText,
+          headers: new Headers(Array.from(res.headers.entries())),
+        });
+      } finally {
+        // 본문까지 다 읽었거나 버린 뒤이므로 연결 정리
+        dispatcher.destroy().catch(() => {});
+      }
+    }
+  } catch (e: any) {
+    if (e instanceof SafeFetchError) throw e;
+    if (e?.name === "AbortError" && !outer?.aborted) {
+      throw new SafeFetchError("FETCH_TIMEOUT", 504, `응답이 너무 늦어요. (${Math.round(opts.timeoutMs / 1000)}초 초과)`);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener("abort", onOuterAbort);
+  }
+}
@@ -0,0 +1,54 @@
+// lib/translate/googleCloud.ts
+// Google Cloud Translation v2 (GOOGLE_TRANSLATE_API_KEY)
+import { ApiError } from "../errors";
+import { httpFetch } from "../http";
+import type { TranslationProvider } from "./types";
+
+export const googleCloudProvider: TranslationProvider = {
+  id: "google-cloud",
+
+  isConfigured() {
+    return !!process.env.GOOGLE_TRANSLATE_API_KEY;
+  },
+
+  async translate(text, { source, target }, signal) {
+    const apiKey = process.env.GOOGLE_TRANSLATE_API_KEY;
+    if (!apiKey) {
+      throw new ApiError("TRANSLATE_NOT_CONFIGURED", 500, "GOOGLE_TRANSLATE_API_KEY가 설정되지 않았습니다.");
+    }
+
+    // 429/5xx 는 httpFetch 가 Retry-After/백오프로 다시 시도 → 한 조각 실패로 전체 번역이 끊기지 않게
+    const res = await httpFetch(
+      `https://translation.googleapis.com/language/translate/v2?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        // source 를 빼면 Cloud v2 가 자동 감지
+        body: JSON.stringify({
+          q: text,
+          ...(source === "auto" ? {} : { source }),
+          target,
+          format: "text",
+        }),
+        cache: "no-store",
+        signal,
+      }
+    );
+
+    const data = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      throw new ApiError(
+        res.status === 429 ? "TRANSLATE_RATE_LIMITED" : "TRANSLATE_FAILED",
+        res.status,
+        (data as any)?.error?.message ||
+          (data as any)?.message ||
+          `Google 번역 오류 (${res.status})`
+      );
+    }
+
+    return String((data as any)?.data?.translations?.[0]?.translatedText ?? "");
+  },
+};
@@ -0,0 +1,52 @@
+// lib/translate/googleFree.ts
+// 비공식(무료) Google Translate endpoint (translate_a/single, client=gtx)
+// - 키가 필요 없는 대신 막히면 429/403 등이 날 수 있음 → 폴백용으로 권장
+import { ApiError } from "../errors";
+import { httpFetch } from "../http";
+import type { TranslationProvider } from "./types";
+
+export const googleFreeProvider: TranslationProvider = {
+  id: "google-free",
+
+  isConfigured() {
+    return true;
+  },
+
+  async translate(text, { source, target }, signal) {
+    const url =
+      "https://translate.googleapis.com/translate_a/single" +
+      `?client=gtx&sl=${encodeURIComponent(source)}` +
+      `&tl=${encodeURIComponent(target)}` +
+      `&dt=t`;
+
+    // 4500자 조각은 GET 쿼리로 넣기엔 길어서 본문(form)으로 보냄
+    const res = await httpFetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8",
+        // 가끔 UA 없으면 막히는 경우가 있어서 넣어둠(완전 보장은 아님)
+        "User-Agent": "Mozilla/5.0",
+      },
+      body: new URLSearchParams({ q: text }).toString(),
+      cache: "no-store",
+      signal,
+    });
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => "");
+      throw new ApiError(
+        res.status === 429 ? "TRANSLATE_RATE_LIMITED" : "TRANSLATE_FAILED",
+        res.status === 429 ? 429 : 502,
+        `Google translate failed: ${res.status}`,
+        body.slice(0, 1200)
+      );
+    }
+
+    // 응답 구조: [[["번역","원문",...], ...], ...]
+    const data = (await res.json().catch(() => null)) as any;
+    if (!Array.isArray(data?.[0])) {
+      throw new ApiError("TRANSLATE_FAILED", 502, "Google 번역 응답 형식을 읽지 못했어요.");
+    }
+    return data[0].map((x: any) => x?.[0] ?? "").join("");
+  },
+};
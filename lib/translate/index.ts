@@ -0,0 +1,107 @@
+// lib/translate/index.ts
+// 번역 엔진 레지스트리 + 폴백 순서대로 번역
+import { ApiError } from "../errors";
+import { googleCloudProvider } from "./googleCloud";
+import { googleFreeProvider } from "./googleFree";
+import { llmProvider } from "./llm";
+import {
+  TRANSLATE_PROVIDER_IDS,
+  TRANSLATE_PROVIDER_LABELS,
+  isTranslateProviderId,
+  type TranslateLanguages,
+  type TranslateProviderId,
+  type TranslateProviderInfo,
+  type TranslateResponse,
+  type TranslationProvider,
+} from "./types";
+
+export { DEFAULT_LANGUAGES, normalizeLanguages } from "./types";
+
+export type {
+  TranslateLanguages,
+  TranslateProviderId,
+  TranslateProviderInfo,
+  TranslateResponse,
+  TranslateStreamEvent,
+  TranslationProvider,
+} from "./types";
+
+const PROVIDERS: Record<TranslateProviderId, TranslationProvider> = {
+  "google-cloud": googleCloudProvider,
+  "google-free": googleFreeProvider,
+  llm: llmProvider,
+};
+
+export function listTranslateProviders(): TranslateProviderInfo[] {
+  return TRANSLATE_PROVIDER_IDS.map((id) => ({
+    id,
+    label: TRANSLATE_PROVIDER_LABELS[id],
+    configured: PROVIDERS[id].isConfigured(),
+  }));
+}
+
+// 클라이언트가 순서를 안 주면 서버 설정 (예: TRANSLATE_PROVIDERS=llm,google-free)
+export function defaultProviderOrder(): TranslateProviderId[] {
+  const fromEnv = (process.env.TRANSLATE_PROVIDERS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(isTranslateProviderId);
+  return fromEnv.length > 0 ? fromEnv : ["google-cloud"];
+}
+
+export function normalizeProviderOrder(v: unknown): TranslateProviderId[] {
+  const list = Array.isArray(v) ? v.filter(isTranslateProviderId) : [];
+  const order = list.length > 0 ? list : defaultProviderOrder();
+  return Array.from(new Set(order));
+}
+
+/** -------------------------
+ *  순서대로 시도 → 먼저 성공한 엔진 결과
+ *  - 설정 안 된 엔진은 건너뜀
+ *  - 모두 실패하면 마지막 오류를 던짐
+ *  - hooks.onDelta 를 주면 스트리밍 되는 엔진은 중간 결과를 흘려보냄
+ *  - signal 로 취소되면 다음 엔진으로 넘어가지 않고 바로 던짐
+ *  ------------------------- */
+export type TranslateHooks = {
+  onAttempt?: (provider: TranslateProviderId) => void;
+  onDelta?: (delta: string) => void;
+};
+
+export async function translateWithFallback(
+  text: string,
+  order: TranslateProviderId[],
+  languages: TranslateLanguages,
+  hooks: TranslateHooks = {},
+  signal?: AbortSignal
+): Promise<Omit<TranslateResponse, "retries">> {
+  const fallbacks: NonNullable<TranslateResponse["fallbacks"]> = [];
+  let lastError: any = null;
+
+  for (const id of order) {
+    const provider = PROVIDERS[id];
+    if (!provider.isConfigured()) continue;
+
+    try {
+      hooks.onAttempt?.(id);
+      const translated =
+        hooks.onDelta && provider.translateStream
+          ? await provider.translateStream(text, languages, hooks.onDelta, signal)
+          : await provider.translate(text, languages, signal);
+      return fallbacks.length > 0
+        ? { translated, provider: id, languages, fallbacks }
+        : { translated, provider: id, languages };
+    } catch (e: any) {
+      if (signal?.aborted) throw e;
+      lastError = e;
+      fallbacks.push({ provider: id, code: String(e?.code || "INTERNAL_ERROR"), error: String(e?.message || e) });
+    }
+  }
+
+  if (lastError) throw lastError;
+
+  throw new ApiError(
+    "TRANSLATE_NOT_CONFIGURED",
+    500,
+    `사용할 수 있는 번역 엔진이 없어요. (${order.map((id) => TRANSLATE_PROVIDER_LABELS[id]).join(", ")} 모두 서버 설정 없음)`
+  );
+}
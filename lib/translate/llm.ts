@@ -0,0 +1,202 @@
+// lib/translate/llm.ts
+// OpenAI 호환 chat/completions 로 번역 (서버 전용)
+// - OpenAI / OpenRouter / llama.cpp server / Ollama(/v1) 등 같은 형식이면 어디든
+// - 회차 표식/고정 치환 규칙은 lib/translationPrompt.ts 그대로 사용
+// - 스트리밍(SSE)도 지원 → /api/translate { stream: true } 에서 토큰 단위로 흘려보냄
+//
+// 환경 변수
+//   LLM_BASE_URL    기본 http://localhost:11434/v1 (Ollama)
+//   LLM_MODEL       필수 (예: gpt-4o-mini, qwen2.5:14b)
+//   LLM_API_KEY     로컬 서버면 비워도 됨
+//   LLM_TIMEOUT_MS  기본 120000 (로컬 모델은 한 조각에 1분 넘게 걸리기도 함)
+import { ApiError } from "../errors";
+import { httpFetch } from "../http";
+import { buildSystemPrompt, buildUserPrompt } from "../translationPrompt";
+import { DEFAULT_LANGUAGES, type TranslateLanguages, type TranslationProvider } from "./types";
+
+export type LlmConfig = {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+};
+
+export function llmConfigFromEnv(): LlmConfig | null {
+  const model = (process.env.LLM_MODEL || "").trim();
+  if (!model) return null;
+
+  return {
+    baseUrl: (process.env.LLM_BASE_URL || "http://localhost:11434/v1").trim().replace(/\/+$/, ""),
+    model,
+    apiKey: (process.env.LLM_API_KEY || "").trim(),
+    timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 120_000,
+  };
+}
+
+// 추론 모델(qwen3, deepseek-r1 등)이 답 앞에 붙이는 생각 과정은 버림
+function stripReasoning(s: string) {
+  return s.replace(/<think>[\s\S]*?<\/think>/gi, "").trim();
+}
+
+// 생각 과정이 아직 끝나지 않았거나 "<thi" 처럼 태그가 잘려 들어온 부분은 숨김 (스트리밍 중간 결과용)
+function visibleSoFar(raw: string) {
+  const closed = raw.replace(/<think>[\s\S]*?<\/think>/gi, "");
+  const open = closed.search(/<think>/i);
+  const cut = open >= 0 ? closed.slice(0, open) : closed.replace(/<(?:t(?:h(?:i(?:n(?:k)?)?)?)?)?$/i, "");
+  return cut.trimStart();
+}
+
+async function requestLlm(
+  text: string,
+  languages: TranslateLanguages,
+  config: LlmConfig | null,
+  stream: boolean,
+  signal?: AbortSignal
+) {
+  if (!config) {
+    throw new ApiError("TRANSLATE_NOT_CONFIGURED", 500, "LLM_MODEL이 설정되지 않았습니다.");
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) headers.authorization = `Bearer ${config.apiKey}`;
+
+  const res = await httpFetch(
+    `${config.baseUrl}/chat/completions`,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          { role: "system", content: buildSystemPrompt(languages) },
+          { role: "user", content: buildUserPrompt(text, languages) },
+        ],
+        // 번역은 창의성보다 일관성
+        temperature: 0.2,
+        stream,
+      }),
+      cache: "no-store",
+      signal,
+    },
+    { timeoutMs: config.timeoutMs }
+  );
+
+  if (!res.ok) {
+    const data: any = await res.json().catch(() => ({}));
+    throw new ApiError(
+      res.status === 429 ? "TRANSLATE_RATE_LIMITED" : "TRANSLATE_FAILED",
+      res.status === 429 ? 429 : 502,
+      data?.error?.message ||
+        (typeof data?.error === "string" ? data.error : "") ||
+        `LLM 번역 오류 (${res.status})`
+    );
+  }
+
+  return res;
+}
+
+function contentFromJson(data: any) {
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content !== "string") {
+    throw new ApiError("TRANSLATE_FAILED", 502, "LLM 응답에 번역 결과가 없어요.");
+  }
+  return stripReasoning(content);
+}
+
+export async function translateWithLlm(
+  text: string,
+  languages: TranslateLanguages = DEFAULT_LANGUAGES,
+  config: LlmConfig | null = llmConfigFromEnv(),
+  signal?: AbortSignal
+) {
+  const res = await requestLlm(text, languages, config, false, signal);
+  return contentFromJson(await res.json().catch(() => ({})));
+}
+
+/** -------------------------
+ *  스트리밍 (SSE: "data: {choices:[{delta:{content}}]}" … "data: [DONE]")
+ *  ------------------------- */
+export async function streamWithLlm(
+  text: string,
+  languages: TranslateLanguages = DEFAULT_LANGUAGES,
+  onDelta: (delta: string) => void,
+  config: LlmConfig | null = llmConfigFromEnv(),
+  signal?: AbortSignal
+) {
+  const res = await requestLlm(text, languages, config, true, signal);
+
+  // stream 을 무시하고 JSON 으로 한 번에 주는 서버도 있음
+  if (!(res.headers.get("content-type") || "").includes("text/event-stream") || !res.body) {
+    const out = contentFromJson(await res.json().catch(() => ({})));
+    onDelta(out);
+    return out;
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let raw = "";
+  let shown = "";
+
+  const handleLine = (line: string) => {
+    const m = line.match(/^data:\s?(.*)$/);
+    if (!m || m[1].trim() === "[DONE]") return;
+
+    let data: any;
+    try {
+      data = JSON.parse(m[1]);
+    } catch {
+      return;
+    }
+    if (data?.error) {
+      throw new ApiError("TRANSLATE_FAILED", 502, data.error.message || String(data.error));
+    }
+
+    const delta = data?.choices?.[0]?.delta?.content;
+    if (typeof delta !== "string" || !delta) return;
+    raw += delta;
+
+    // 보이는 부분이 앞에서부터 늘어날 때만 흘려보냄 (생각 과정이 끝나며 줄어드는 경우 등은 최종 결과로 맞춤)
+    const visible = visibleSoFar(raw);
+    if (visible.length > shown.length && visible.startsWith(shown)) {
+      onDelta(visible.slice(shown.length));
+      shown = visible;
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      lines.forEach((line) => handleLine(line.trim()));
+    }
+    handleLine((buffer + decoder.decode()).trim());
+  } finally {
+    // 중간에 오류 줄이 와서 그만 읽는 경우에도 연결 정리
+    reader.cancel().catch(() => {});
+  }
+
+  const out = stripReasoning(raw);
+  if (!out) throw new ApiError("TRANSLATE_FAILED", 502, "LLM 응답에 번역 결과가 없어요.");
+  return out;
+}
+
+export const llmProvider: TranslationProvider = {
+  id: "llm",
+
+  isConfigured() {
+    return llmConfigFromEnv() !== null;
+  },
+
+  translate(text, languages, signal) {
+    return translateWithLlm(text, languages, llmConfigFromEnv(), signal);
+  },
+
+  translateStream(text, languages, onDelta, signal) {
+    return streamWithLlm(text, languages, onDelta, llmConfigFromEnv(), signal);
+  },
+};
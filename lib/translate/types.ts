@@ -0,0 +1,107 @@
+// lib/translate/types.ts
+// 번역 엔진 공용 타입 (클라이언트 설정 화면에서도 import → node 전용 모듈 금지)
+import type { ApiErrorBody } from "../errors";
+import type { GlossaryReport } from "../glossary";
+
+export type TranslateProviderId = "google-cloud" | "google-free" | "llm";
+
+export const TRANSLATE_PROVIDER_IDS: TranslateProviderId[] = ["google-cloud", "google-free", "llm"];
+
+export const TRANSLATE_PROVIDER_LABELS: Record<TranslateProviderId, string> = {
+  "google-cloud": "Google Cloud 번역",
+  "google-free": "Google 번역 (무료·비공식)",
+  llm: "LLM (OpenAI 호환)",
+};
+
+export function isTranslateProviderId(v: unknown): v is TranslateProviderId {
+  return typeof v === "string" && (TRANSLATE_PROVIDER_IDS as string[]).includes(v);
+}
+
+/** -------------------------
+ *  언어
+ *  - 코드는 Google 번역 기준 (ja / zh-CN / en ...)
+ *  - source 는 "auto" 면 엔진이 자동 감지
+ *  ------------------------- */
+export type TranslateLanguages = {
+  source: string;
+  target: string;
+};
+
+export const DEFAULT_LANGUAGES: TranslateLanguages = { source: "ja", target: "ko" };
+
+export const SOURCE_LANGUAGES: Array<{ code: string; label: string }> = [
+  { code: "auto", label: "자동 감지" },
+  { code: "ja", label: "일본어" },
+  { code: "zh-CN", label: "중국어(간체)" },
+  { code: "zh-TW", label: "중국어(번체)" },
+  { code: "en", label: "영어" },
+  { code: "ko", label: "한국어" },
+];
+
+export const TARGET_LANGUAGES = SOURCE_LANGUAGES.filter((l) => l.code !== "auto");
+
+export function languageLabel(code: string) {
+  return SOURCE_LANGUAGES.find((l) => l.code === code)?.label || code;
+}
+
+// 목록에 없는 값은 기본값으로 (요청 본문/저장된 값 정리용)
+export function normalizeLanguages(v: any, fallback: TranslateLanguages = DEFAULT_LANGUAGES): TranslateLanguages {
+  const source = SOURCE_LANGUAGES.some((l) => l.code === v?.source) ? v.source : fallback.source;
+  const target = TARGET_LANGUAGES.some((l) => l.code === v?.target) ? v.target : fallback.target;
+  return { source, target };
+}
+
+/** -------------------------
+ *  번역 엔진 (서버)
+ *  ------------------------- */
+export type TranslationProvider = {
+  id: TranslateProviderId;
+  // 필요한 환경 변수가 없으면 false → 폴백 순서에서 건너뜀
+  isConfigured(): boolean;
+  // 실패는 ApiError 로 던짐 (TRANSLATE_RATE_LIMITED / TRANSLATE_FAILED / ...)
+  // - signal: 클라이언트가 요청을 끊으면 외부 API 호출도 같이 취소
+  translate(text: string, languages: TranslateLanguages, signal?: AbortSignal): Promise<string>;
+  // 중간 결과를 흘려보낼 수 있는 엔진만 (LLM). 없으면 translate 로 한 번에
+  // - onDelta 로 나온 조각을 이어 붙인 것과 최종 반환값은 다를 수 있음 (앞뒤 공백 정리 등) → 반환값이 기준
+  translateStream?(
+    text: string,
+    languages: TranslateLanguages,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<string>;
+};
+
+/** -------------------------
+ *  /api/translate 응답
+ *  ------------------------- */
+export type TranslateResponse = {
+  translated: string;
+  // 실제로 번역한 엔진
+  provider: TranslateProviderId;
+  // 실제로 요청한 언어 (source 가 auto 였으면 그대로 auto)
+  languages: TranslateLanguages;
+  retries: number;
+  // 앞 순서 엔진이 실패해서 넘어온 경우 그 기록
+  fallbacks?: Array<{ provider: TranslateProviderId; code: string; error: string }>;
+  // 용어집을 보낸 경우: 적용된 항목/적용 못 한 항목
+  glossary?: GlossaryReport;
+};
+
+/** -------------------------
+ *  POST /api/translate { stream: true } → NDJSON (한 줄에 이벤트 하나)
+ *  ------------------------- */
+export type TranslateStreamEvent =
+  // 시작: 용어집 표식 ⟦G1⟧… 의 번역어 (중간 결과 표시용, 인덱스 = 번호 - 1)
+  | { type: "start"; glossaryTargets: string[] }
+  // 엔진 시도 시작 — 앞 엔진이 중간에 실패했으면 지금까지 받은 delta 는 버릴 것
+  | { type: "attempt"; provider: TranslateProviderId }
+  | { type: "delta"; text: string }
+  | ({ type: "done" } & TranslateResponse)
+  | ({ type: "error"; status: number } & ApiErrorBody);
+
+// GET /api/translate → 설정 화면용 목록
+export type TranslateProviderInfo = {
+  id: TranslateProviderId;
+  label: string;
+  configured: boolean;
+};
@@ -0,0 +1,86 @@
+// lib/translationMemory.ts
+// 번역 메모리: 문단 단위로 번역 결과를 기억해 두고, 원문이 같으면 다시 보내지 않음
+//
+// 키 = 정규화한 문단 해시 + 엔진 + 언어쌍 + 용어집 버전
+// - 문단은 chunkText 와 같은 기준 (빈 줄로 구분)
+// - 용어집을 바꾸면 버전이 달라져서 예전 결과는 안 씀
+//
+// ※ 저장(localStorage)은 화면 쪽에서. 여기는 키/정리 규칙만 (node 모듈 금지)
+import type { GlossaryEntry } from "./glossary";
+import type { TranslateLanguages, TranslateProviderId } from "./translate/types";
+
+export type MemoryEntry = {
+  // 번역 결과
+  t: string;
+  // 마지막으로 쓴 시각 (오래된 것부터 지움)
+  at: number;
+  // 실제로 번역한 엔진 (예전 항목엔 없음)
+  provider?: TranslateProviderId;
+};
+
+export type TranslationMemory = Record<string, MemoryEntry>;
+
+export type MemoryContext = {
+  provider: TranslateProviderId;
+  languages: TranslateLanguages;
+  glossaryVersion: string;
+};
+
+// localStorage 용량을 생각해서 이 이상은 오래된 것부터 버림
+export const MAX_MEMORY_ENTRIES = 3000;
+
+// cyrb53: 짧고 충돌이 드문 문자열 해시 (보안 용도 아님, 이어하기 작업 키에도 씀)
+export function hashText(s: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// 줄 끝 공백/전각 공백 차이, 줄바꿈 형식 차이는 같은 문단으로 봄
+export function normalizeParagraph(p: string) {
+  return p
+    .normalize("NFC")
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t　]+/g, " ").trim())
+    .join("\n")
+    .trim();
+}
+
+export function splitParagraphs(text: string) {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+export function glossaryVersion(entries: GlossaryEntry[]) {
+  if (entries.length === 0) return "none";
+  return hashText(JSON.stringify(entries.map((e) => [e.source, e.target, !!e.caseSensitive, !!e.regex])));
+}
+
+export function memoryKey(paragraph: string, ctx: MemoryContext) {
+  const p = normalizeParagraph(paragraph);
+  return [hashText(p), p.length, ctx.provider, `${ctx.languages.source}>${ctx.languages.target}`, ctx.glossaryVersion].join(
+    "|"
+  );
+}
+
+// 최근에 쓴 것 위주로 max 개만 남김
+export function pruneMemory(memory: TranslationMemory, max = MAX_MEMORY_ENTRIES): TranslationMemory {
+  const keys = Object.keys(memory);
+  if (keys.length <= max) return memory;
+
+  const keep = keys.sort((a, b) => memory[b].at - memory[a].at).slice(0, max);
+  const out: TranslationMemory = {};
+  for (const k of keep) out[k] = memory[k];
+  return out;
+}
@@ -1,7 +1,33 @@
 // lib/translationPrompt.ts
+import { DEFAULT_LANGUAGES, languageLabel, type TranslateLanguages } from "./translate/types";
 
-export const TRANSLATION_SYSTEM_PROMPT = `
-당신은 일본어(및 혼합 언어) 텍스트를 자연스러운 한국어로 번역하는 번역기입니다.
+function sourceName(code: string) {
+  return code === "auto" ? "일본어·중국어·영어 등(혼합 언어 포함)" : `${languageLabel(code)}(및 혼합 언어)`;
+}
+
+// 第1話 → 대상 언어의 회차 표기
+function episodeExample(target: string) {
+  if (target === "ko") return `"제 1화"`;
+  if (target === "en") return `"Episode 1"`;
+  if (target === "ja") return `"第1話"`;
+  return `${languageLabel(target)} 회차 표기`;
+}
+
+export function buildSystemPrompt(languages: TranslateLanguages = DEFAULT_LANGUAGES) {
+  const target = languageLabel(languages.target);
+
+  // 고정 치환은 한국어 결과 기준으로 정해 둔 값
+  const fixed =
+    languages.target === "ko"
+      ? `
+[고정 치환]
+7) 'Side Fate'는 'Side 페이트'로 번역합니다. (고정)
+8) "顔出NG"는 "얼굴 공개 거부"로 번역합니다. (고정)
+`
+      : "";
+
+  return `
+당신은 ${sourceName(languages.source)} 텍스트를 자연스러운 ${target}로 번역하는 번역기입니다.
 아래 규칙을 반드시 지키세요.
 
 [의미/정확성]
@@ -12,28 +38,30 @@ export const TRANSLATION_SYSTEM_PROMPT = `
 [회차/표식 규칙(중요)]
 3) 원문이 "#숫자" 또는 "#0숫자" 형태면 그 줄은 절대로 번역하지 말고 그대로 유지합니다.
    - 예: "#1" -> "#1", "#01" -> "#01"
-4) 원문이 "第숫자話" 형태면 한국식으로 번역합니다.
-   - 예: "第1話" -> "제 1화"
+4) 원문이 "第숫자話" 형태면 ${target} 회차 표기로 번역합니다.
+   - 예: "第1話" -> ${episodeExample(languages.target)}
 5) 원문에 없는 회차/헤더/부제목을 새로 만들지 마세요.
 6) 회차/헤더를 중복 출력하지 마세요.
 
-[고정 치환]
-7) 'Side Fate'는 'Side 페이트'로 번역합니다. (고정)
-8) "顔出NG"는 "얼굴 공개 거부"로 번역합니다. (고정)
-
+[용어집 표식]
+- "⟦G1⟧", "⟦P1⟧" 같은 표식은 용어집/회차 줄/URL/태그 자리입니다. 번역하거나 지우지 말고 같은 위치에 그대로 둡니다.
+${fixed}
 [서식]
 - 대사는 큰따옴표("")로 표시합니다.
 - 대사 줄은 위/아래 한 줄씩 공백(빈 줄)을 둡니다.
 - 출력은 번역 결과만. 설명/주석 금지.
 `.trim();
+}
+
+export const TRANSLATION_SYSTEM_PROMPT = buildSystemPrompt();
 
-export function buildUserPrompt(input: string) {
+export function buildUserPrompt(input: string, languages: TranslateLanguages = DEFAULT_LANGUAGES) {
   return `
-아래 텍스트를 한국어로 번역하세요.
+아래 텍스트를 ${languageLabel(languages.target)}로 번역하세요.
 
 [회차/표식 규칙]
 - "#1/#01" 같은 줄은 그대로 유지(번역 금지).
-- "第1話" 같은 줄은 "제 1화"로 번역.
+- "第1話" 같은 줄은 ${episodeExample(languages.target)}로 번역.
 - 원문에 없는 회차/부제목 생성 금지.
 - 회차/헤더 중복 출력 금지.
 
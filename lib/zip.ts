@@ -0,0 +1,128 @@
+// lib/zip.ts
+// EPUB(=zip) 읽기용 최소 zip 리더 (서버 전용)
+// - 중앙 디렉터리 기준으로 파일 목록을 읽고, 저장(0)/deflate(8) 방식만 지원
+// - 암호화/분할/zip64 는 지원하지 않음 (EPUB 에서는 거의 안 씀)
+// - 압축 폭탄 대비: 항목 하나/전체의 풀린 크기에 상한 (업로드 상한은 압축된 크기만 막음)
+// - 깨진 zip 은 EPUB_INVALID(400) 로 던짐 (오프셋이 파일 밖을 가리켜도 RangeError 로 새지 않게)
+import { inflateRawSync } from "zlib";
+import { ApiError } from "./errors";
+
+export type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  // 중앙 디렉터리에 적힌 값 (거짓일 수 있어서 풀 때도 따로 막음)
+  uncompressedSize: number;
+  localHeaderOffset: number;
+};
+
+export type ZipLimits = {
+  // 항목 하나를 풀었을 때 최대 크기
+  maxEntryBytes: number;
+  // 이 zip 에서 지금까지 풀어낸 크기 합계 상한
+  maxTotalBytes: number;
+};
+
+const DEFAULT_LIMITS: ZipLimits = {
+  maxEntryBytes: 32 * 1024 * 1024,
+  maxTotalBytes: 128 * 1024 * 1024,
+};
+
+function tooLarge(name: string, limit: number) {
+  return new ApiError(
+    "FILE_TOO_LARGE",
+    413,
+    `zip 안의 파일이 풀었을 때 너무 커요: ${name} (최대 ${Math.round(limit / 1024 / 1024)}MB)`
+  );
+}
+
+function broken(message: string) {
+  return new ApiError("EPUB_INVALID", 400, message);
+}
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+
+function readCentralDirectory(buf: Buffer) {
+  // End of central directory: 파일 끝에서 역방향 탐색 (뒤에 주석이 최대 64KB 붙을 수 있음)
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIG) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw broken("zip 형식이 아니에요 (중앙 디렉터리를 찾지 못함).");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > buf.length || buf.readUInt32LE(p) !== CENTRAL_SIG) break;
+
+    const method = buf.readUInt16LE(p + 10);
+    const compressedSize = buf.readUInt32LE(p + 20);
+    const uncompressedSize = buf.readUInt32LE(p + 24);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    const localHeaderOffset = buf.readUInt32LE(p + 42);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLen);
+
+    entries.set(name, { name, method, compressedSize, uncompressedSize, localHeaderOffset });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+export function openZip(data: ArrayBuffer | Uint8Array, limits: ZipLimits = DEFAULT_LIMITS) {
+  const buf = Buffer.from(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const entries = readCentralDirectory(buf);
+  let inflatedTotal = 0;
+
+  function read(name: string): Buffer | null {
+    const e = entries.get(name);
+    if (!e) return null;
+
+    const h = e.localHeaderOffset;
+    if (h + 30 > buf.length || buf.readUInt32LE(h) !== LOCAL_SIG) throw broken(`zip 로컬 헤더가 깨져 있어요: ${name}`);
+
+    // 로컬 헤더의 extra 길이는 중앙 디렉터리와 다를 수 있어서 여기서 다시 읽음
+    const start = h + 30 + buf.readUInt16LE(h + 26) + buf.readUInt16LE(h + 28);
+    if (start + e.compressedSize > buf.length) throw broken(`zip 항목이 파일 밖을 가리켜요: ${name}`);
+    const raw = buf.subarray(start, start + e.compressedSize);
+
+    // 이번 항목에 허용할 크기: 항목 상한과 남은 전체 한도 중 작은 쪽
+    const limit = Math.min(limits.maxEntryBytes, limits.maxTotalBytes - inflatedTotal);
+    if (limit <= 0 || e.uncompressedSize > limit) throw tooLarge(name, limits.maxEntryBytes);
+
+    let out: Buffer;
+    if (e.method === 0) out = Buffer.from(raw);
+    else if (e.method === 8) {
+      try {
+        out = inflateRawSync(raw, { maxOutputLength: limit });
+      } catch (err: any) {
+        // 적힌 크기보다 실제로 더 많이 풀리는 경우 (ERR_BUFFER_TOO_LARGE)
+        if (err?.code === "ERR_BUFFER_TOO_LARGE" || err instanceof RangeError) throw tooLarge(name, limits.maxEntryBytes);
+        // 압축 데이터 자체가 깨짐 (Z_DATA_ERROR 등)
+        throw broken(`zip 항목을 풀지 못했어요: ${name}`);
+      }
+    } else throw broken(`지원하지 않는 zip 압축 방식(${e.method})이에요: ${name}`);
+
+    if (out.length > limit) throw tooLarge(name, limits.maxEntryBytes);
+    inflatedTotal += out.length;
+    return out;
+  }
+
+  return {
+    entries,
+    read,
+    readText(name: string) {
+      return read(name)?.toString("utf8") ?? null;
+    },
+  };
+}
+
+export type ZipArchive = ReturnType<typeof openZip>;
@@ -1,6 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // jsdom은 번들링하면 내부 리소스(css 등)를 못 찾으므로 서버에서 그대로 require
+    // undici(safeFetch 의 주소 고정 연결)도 node 내장 모듈을 직접 써서 같은 이유로 제외
+    serverComponentsExternalPackages: ["jsdom", "undici"],
+  },
 };
 
 module.exports = nextConfig;